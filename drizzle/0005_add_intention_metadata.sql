@@ -0,0 +1,2 @@
+-- Per-intention metadata (bot reply bookkeeping: triggering intention, alternates, ...)
+ALTER TABLE "rhiz_om_intentions" ADD COLUMN IF NOT EXISTS "metadata" jsonb;
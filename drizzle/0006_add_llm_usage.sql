@@ -0,0 +1,16 @@
+-- LLM usage ledger for per-bot / per-owner / per-space spend reporting and budgets
+CREATE TABLE IF NOT EXISTS "rhiz_om_llm_usage" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"intentionId" varchar(255) NOT NULL REFERENCES "rhiz_om_intentions"("id"),
+	"botId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"ownerId" varchar(255) REFERENCES "rhiz_om_beings"("id"),
+	"spaceId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"model" varchar(255) NOT NULL,
+	"promptTokens" integer NOT NULL,
+	"completionTokens" integer NOT NULL,
+	"cost" double precision NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "llm_usage_bot_created_idx" ON "rhiz_om_llm_usage" ("botId", "createdAt");
+CREATE INDEX IF NOT EXISTS "llm_usage_owner_created_idx" ON "rhiz_om_llm_usage" ("ownerId", "createdAt");
+CREATE INDEX IF NOT EXISTS "llm_usage_space_created_idx" ON "rhiz_om_llm_usage" ("spaceId", "createdAt");
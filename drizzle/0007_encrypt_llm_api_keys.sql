@@ -0,0 +1,5 @@
+-- Per-being LLM API keys are now envelope-encrypted; clients only see the last 4 characters.
+-- Existing plaintext keys must be encrypted by running `npm run db:encrypt-keys` (scripts/encrypt-llm-keys.mjs)
+-- after this migration; bots with unencrypted keys fail to respond until it has run.
+ALTER TABLE "rhiz_om_beings" ADD COLUMN IF NOT EXISTS "llmApiKeyLast4" varchar(4);
+UPDATE "rhiz_om_beings" SET "llmApiKeyLast4" = right("llmApiKey", 4) WHERE "llmApiKey" IS NOT NULL AND "llmApiKey" <> '';
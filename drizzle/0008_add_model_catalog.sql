@@ -0,0 +1,6 @@
+-- Server-side cache of provider model catalogs (refreshed after a TTL)
+CREATE TABLE IF NOT EXISTS "rhiz_om_model_catalog" (
+	"source" varchar(64) PRIMARY KEY NOT NULL,
+	"models" jsonb NOT NULL,
+	"fetchedAt" timestamp with time zone NOT NULL
+);
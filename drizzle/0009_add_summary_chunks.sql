@@ -0,0 +1,18 @@
+-- Calendar-band summaries of space history (see docs/requirements/rhiz.om-agents-intentions.md)
+CREATE TABLE IF NOT EXISTS "rhiz_om_summary_chunks" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"spaceId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"band" varchar(16) NOT NULL,
+	"windowIndex" integer NOT NULL,
+	"firstIntentionId" varchar(255) NOT NULL,
+	"lastIntentionId" varchar(255) NOT NULL,
+	"rangeStart" timestamp with time zone NOT NULL,
+	"rangeEnd" timestamp with time zone NOT NULL,
+	"messageCount" integer NOT NULL,
+	"hash" varchar(64) NOT NULL,
+	"text" text NOT NULL,
+	"tokenCount" integer NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "summary_chunks_window_idx" ON "rhiz_om_summary_chunks" ("spaceId", "band", "windowIndex");
+CREATE INDEX IF NOT EXISTS "summary_chunks_space_range_idx" ON "rhiz_om_summary_chunks" ("spaceId", "rangeStart");
@@ -0,0 +1,19 @@
+-- Vector memory for semantic search and bot retrieval (requires the pgvector extension)
+CREATE EXTENSION IF NOT EXISTS vector;
+CREATE TABLE IF NOT EXISTS "rhiz_om_embeddings" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"sourceType" varchar(16) NOT NULL,
+	"sourceId" varchar(255) NOT NULL,
+	"chunkIndex" integer NOT NULL,
+	"spaceId" varchar(255),
+	"ownerId" varchar(255),
+	"embedder" varchar(128) NOT NULL,
+	"contentHash" varchar(64) NOT NULL,
+	"text" text NOT NULL,
+	"embedding" vector(512) NOT NULL,
+	"sourceCreatedAt" timestamp with time zone NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "embeddings_source_chunk_idx" ON "rhiz_om_embeddings" ("sourceType", "sourceId", "chunkIndex");
+CREATE INDEX IF NOT EXISTS "embeddings_space_idx" ON "rhiz_om_embeddings" ("spaceId");
+CREATE INDEX IF NOT EXISTS "embeddings_vector_idx" ON "rhiz_om_embeddings" USING hnsw ("embedding" vector_cosine_ops);
@@ -0,0 +1,20 @@
+-- Reusable bot persona templates with immutable versions
+CREATE TABLE IF NOT EXISTS "rhiz_om_bot_templates" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"name" varchar(256) NOT NULL,
+	"description" text,
+	"ownerId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"currentVersion" integer DEFAULT 1 NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"modifiedAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+CREATE TABLE IF NOT EXISTS "rhiz_om_bot_template_versions" (
+	"templateId" varchar(255) NOT NULL REFERENCES "rhiz_om_bot_templates"("id") ON DELETE CASCADE,
+	"version" integer NOT NULL,
+	"botPrompt" text NOT NULL,
+	"botModel" varchar(255),
+	"activation" jsonb,
+	"botTools" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "rhiz_om_bot_template_versions_templateId_version_pk" PRIMARY KEY("templateId","version")
+);
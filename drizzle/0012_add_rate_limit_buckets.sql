@@ -0,0 +1,7 @@
+-- Token buckets for per-bot and per-user activation rate limits
+CREATE TABLE IF NOT EXISTS "rhiz_om_rate_limit_buckets" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"tokens" double precision NOT NULL,
+	"updatedAt" timestamp with time zone NOT NULL,
+	"notifiedAt" timestamp with time zone
+);
@@ -0,0 +1,2 @@
+-- Keyset pagination of a location's intention history on (createdAt, id)
+CREATE INDEX IF NOT EXISTS "intention_location_created_id_idx" ON "rhiz_om_intentions" USING btree ("locationId","createdAt","id");
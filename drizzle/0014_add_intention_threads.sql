@@ -0,0 +1,3 @@
+-- Threaded replies: a reply points at the first message of its thread
+ALTER TABLE "rhiz_om_intentions" ADD COLUMN IF NOT EXISTS "parentId" varchar(255) REFERENCES "rhiz_om_intentions"("id");
+CREATE INDEX IF NOT EXISTS "intention_parent_idx" ON "rhiz_om_intentions" USING btree ("parentId");
@@ -0,0 +1,12 @@
+-- Editing and soft-deleting utterances, with earlier content kept as revisions
+ALTER TABLE "rhiz_om_intentions" ADD COLUMN IF NOT EXISTS "editedAt" timestamp with time zone;
+ALTER TABLE "rhiz_om_intentions" ADD COLUMN IF NOT EXISTS "deletedAt" timestamp with time zone;
+CREATE TABLE IF NOT EXISTS "rhiz_om_intention_revisions" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"intentionId" varchar(255) NOT NULL REFERENCES "rhiz_om_intentions"("id") ON DELETE CASCADE,
+	"content" jsonb NOT NULL,
+	"action" varchar(16) NOT NULL,
+	"actorId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "intention_revisions_intention_idx" ON "rhiz_om_intention_revisions" USING btree ("intentionId","createdAt");
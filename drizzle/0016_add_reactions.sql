@@ -0,0 +1,8 @@
+-- Emoji reactions on intentions, toggled per being and emoji
+CREATE TABLE IF NOT EXISTS "rhiz_om_reactions" (
+	"intentionId" varchar(255) NOT NULL REFERENCES "rhiz_om_intentions"("id") ON DELETE CASCADE,
+	"beingId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"emoji" varchar(32) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "rhiz_om_reactions_intentionId_beingId_emoji_pk" PRIMARY KEY("intentionId","beingId","emoji")
+);
@@ -0,0 +1,10 @@
+-- Index of which beings each message mentions, for "messages that mention me"
+CREATE TABLE IF NOT EXISTS "rhiz_om_mentions" (
+	"intentionId" varchar(255) NOT NULL REFERENCES "rhiz_om_intentions"("id") ON DELETE CASCADE,
+	"beingId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"locationId" varchar(255) NOT NULL REFERENCES "rhiz_om_beings"("id"),
+	"createdAt" timestamp with time zone NOT NULL,
+	CONSTRAINT "rhiz_om_mentions_intentionId_beingId_pk" PRIMARY KEY("intentionId","beingId")
+);
+
+CREATE INDEX IF NOT EXISTS "mentions_being_created_idx" ON "rhiz_om_mentions" USING btree ("beingId","createdAt","intentionId");
@@ -0,0 +1,6 @@
+-- Claims on schedule and silence trigger runs, shared by every server instance
+CREATE TABLE IF NOT EXISTS "rhiz_om_bot_trigger_runs" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"marker" varchar(255) NOT NULL,
+	"firedAt" timestamp with time zone NOT NULL
+);
@@ -0,0 +1,2 @@
+-- Summary windows are now slots of time rather than runs of messages; the engine rebuilds them
+DELETE FROM "rhiz_om_summary_chunks";
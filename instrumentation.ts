@@ -56,5 +56,9 @@ export async function register() {
 				.join(" ");
 			nextLogger.debug(message);
 		};
+
+		// Scheduled, presence and silence triggers for bots
+		const { startBotTriggers } = await import("~/server/lib/bot-triggers");
+		startBotTriggers();
 	}
 }
@@ -0,0 +1,20 @@
+// Runs the bot evaluation CLI (src/server/lib/bot-eval/cli.ts) outside Next:
+// resolves the app's "~" alias, and treats it as server code like Next's
+// react-server condition does, so "server-only" imports are allowed.
+// Usage: npm run bots:eval -- @my-bot suite.json
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const require = createRequire(import.meta.url);
+
+const jiti = createJiti(import.meta.url, {
+	alias: {
+		"~": fileURLToPath(new URL("../src", import.meta.url)),
+		"server-only": join(dirname(require.resolve("server-only")), "empty.js"),
+	},
+});
+
+const { main } = await jiti.import("../src/server/lib/bot-eval/cli.ts");
+process.exit(await main(process.argv.slice(2)));
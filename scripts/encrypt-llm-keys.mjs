@@ -0,0 +1,20 @@
+// Encrypts plaintext LLM API keys left from before keys were encrypted
+// (src/server/lib/encrypt-llm-keys.ts), resolving the app's "~" alias and
+// allowing "server-only" imports like scripts/bots-eval.mjs does.
+// Usage: npm run db:encrypt-keys
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const require = createRequire(import.meta.url);
+
+const jiti = createJiti(import.meta.url, {
+	alias: {
+		"~": fileURLToPath(new URL("../src", import.meta.url)),
+		"server-only": join(dirname(require.resolve("server-only")), "empty.js"),
+	},
+});
+
+const { main } = await jiti.import("../src/server/lib/encrypt-llm-keys.ts");
+process.exit(await main());
@@ -80,7 +80,6 @@ export function BeingEditor({ beingId }: BeingEditorProps) {
 				content: being.content || undefined,
 				botModel: being.botModel || undefined,
 				botPrompt: being.botPrompt || undefined,
-				llmApiKey: being.llmApiKey || undefined,
 			};
 			methods.reset(formValues);
 		}
@@ -108,7 +107,7 @@ export function BeingEditor({ beingId }: BeingEditorProps) {
 					className="flex h-full flex-col"
 				>
 					<div className="flex-grow overflow-y-auto p-4">
-						<BeingForm />
+						<BeingForm apiKeyHint={being?.llmApiKeyLast4} />
 					</div>
 					<DialogFooter className="p-4">
 						<Button type="submit" disabled={methods.formState.isSubmitting}>
@@ -5,9 +5,17 @@ import type { z } from "zod/v4";
 import { BeingSelectField } from "~/components/being-selector";
 import { ModelSelectField } from "~/components/model-selector";
 import { BeingTypeSelect } from "~/components/ui/being-type-select";
+import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import { PasswordField } from "~/components/ui/password-field";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/select";
 import { Separator } from "~/components/ui/separator";
 
 import { markdown } from "@codemirror/lang-markdown";
@@ -20,16 +28,23 @@ import type { insertBeingSchema } from "~/server/db/types";
 /* ---------- Types ---------- */
 type BeingFormData = z.infer<typeof insertBeingSchema>;
 
-export function BeingForm() {
+interface BeingFormProps {
+	apiKeyHint?: string | null; // Last 4 characters of the stored API key, if any
+}
+
+export function BeingForm({ apiKeyHint }: BeingFormProps = {}) {
 	const {
 		control,
 		register,
+		setValue,
 		watch,
 		formState: { errors },
 	} = useFormContext<BeingFormData>();
 
 	// Watch the type field to conditionally show bot fields
 	const currentType = watch("type");
+	// The stored key is never sent to the browser: null clears it, empty keeps it
+	const apiKeyCleared = watch("llmApiKey") === null;
 
 	/* ---------- render ---------- */
 	return (
@@ -143,7 +158,11 @@ export function BeingForm() {
 							<Label htmlFor="botPrompt">Bot System Prompt</Label>
 							<p className="mb-2 text-muted-foreground text-sm">
 								Define the bot's personality, instructions, and behavior.
-								Supports Markdown formatting.
+								Supports Markdown formatting and placeholders filled in when the
+								bot replies: <code>{"{{space.name}}"}</code>,{" "}
+								<code>{"{{speaker.name}}"}</code>, <code>{"{{now}}"}</code>,{" "}
+								<code>{"{{beings.present}}"}</code>,{" "}
+								<code>{"{{document:@id}}"}</code>.
 							</p>
 							<Controller
 								control={control}
@@ -177,6 +196,42 @@ export function BeingForm() {
 								</p>
 							)}
 						</div>
+						<div>
+							<Label htmlFor="thinkingVisibility">Reasoning</Label>
+							<p className="mb-2 text-muted-foreground text-sm">
+								Reasoning models think before answering. Their thinking is kept
+								as a collapsed section on each reply, to help debug why the bot
+								answered the way it did.
+							</p>
+							<Controller
+								control={control}
+								name="properties.thinkingVisibility"
+								render={({ field }) => (
+									<Select
+										value={
+											typeof field.value === "string" ? field.value : "owner"
+										}
+										onValueChange={field.onChange}
+									>
+										<SelectTrigger id="thinkingVisibility">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="none">
+												Hidden (not recorded)
+											</SelectItem>
+											<SelectItem value="owner">
+												Visible to the owner
+											</SelectItem>
+											<SelectItem value="everyone">
+												Visible to everyone in the space
+											</SelectItem>
+										</SelectContent>
+									</Select>
+								)}
+							/>
+						</div>
+
 						<div>
 							<Label htmlFor="llmApiKey">OpenRouter API Key</Label>
 							<p className="mb-2 text-muted-foreground text-sm">
@@ -192,9 +247,30 @@ export function BeingForm() {
 								</a>
 								.
 							</p>
+							{apiKeyHint && (
+								<div className="mb-2 flex items-center gap-2 text-sm">
+									<span className="text-muted-foreground">
+										{apiKeyCleared
+											? "Key will be removed on save"
+											: `Key configured (…${apiKeyHint}). Enter a new key to replace it.`}
+									</span>
+									{!apiKeyCleared && (
+										<Button
+											type="button"
+											variant="outline"
+											size="sm"
+											onClick={() =>
+												setValue("llmApiKey", null, { shouldDirty: true })
+											}
+										>
+											Clear
+										</Button>
+									)}
+								</div>
+							)}
 							<PasswordField
 								id="llmApiKey"
-								placeholder="sk-or-..."
+								placeholder={apiKeyHint ? `…${apiKeyHint}` : "sk-or-..."}
 								{...register("llmApiKey")}
 							/>
 							{errors.llmApiKey && (
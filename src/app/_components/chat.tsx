@@ -1,6 +1,8 @@
 // src/app/_components/chat.tsx
 "use client";
 
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { MessageSquare, Pencil, RotateCcw, Square, Trash2 } from "lucide-react";
 import {
 	useCallback,
 	useEffect,
@@ -9,21 +11,35 @@ import {
 	useRef,
 	useState,
 } from "react";
+import { toast } from "sonner";
 import superjson from "superjson";
+import { MessageReactions } from "~/app/_components/message-reactions";
 import { RichContent } from "~/app/_components/rich-content";
-import { ChatInput, type ChatInputRef } from "~/components/chat-input";
+import { ThreadPanel } from "~/app/_components/thread-panel";
+import {
+	ChatInput,
+	type ChatInputRef,
+	type ImageAttachment,
+} from "~/components/chat-input";
 import { FloatingVideoOrbs } from "~/components/floating-video-orbs";
 import { Avatar, type BeingType } from "~/components/ui/avatar";
+import { Button } from "~/components/ui/button";
 import ErrorBoundary from "~/components/ui/error-boundary";
+import { Textarea } from "~/components/ui/textarea";
 import { useSync } from "~/hooks/use-sync";
 import { logger } from "~/lib/logger.client";
+import { canControlBotResponse, canEdit, isSuperuser } from "~/lib/permissions";
+import { toMentionTokenText } from "~/lib/types";
 import type { ContentNode } from "~/server/db/content-types";
-import type { BeingId, Intention } from "~/server/db/types";
+import type { BeingId, Intention, IntentionId } from "~/server/db/types";
 import { api } from "~/trpc/react";
 
 const AI_AGENT_BEING_ID: BeingId = "@rhiz.om-assistant";
 const chatLogger = logger.child({ name: "Chat" });
 
+// Load the previous page once the user scrolls this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 200;
+
 interface ChatProps {
 	currentUserBeingId: BeingId;
 	beingId: BeingId;
@@ -31,16 +47,34 @@ interface ChatProps {
 
 export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 	const [message, setMessage] = useState("");
+	const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [showScrollToBottom, setShowScrollToBottom] = useState(false);
+	const [openThreadId, setOpenThreadId] = useState<IntentionId | null>(null);
+	const [editing, setEditing] = useState<{
+		id: IntentionId;
+		text: string;
+	} | null>(null);
 	// Streaming state no longer needed - handled by intention updates
 
-	const chatContainerRef = useRef<HTMLUListElement>(null);
-	const bottomAnchorRef = useRef<HTMLLIElement>(null);
+	const chatContainerRef = useRef<HTMLDivElement>(null);
+	const bottomAnchorRef = useRef<HTMLDivElement>(null);
 	const chatInputRef = useRef<ChatInputRef>(null);
+	// Scroll position from the bottom when an older page was requested, restored once it renders
+	const olderPageAnchorRef = useRef<number | null>(null);
+	const initialScrollDoneRef = useRef(false);
 
 	// Use sync for real-time intentions and beings
-	const { beings: syncBeings, intentions: utterances, room } = useSync(beingId);
+	const {
+		beings: syncBeings,
+		intentions: utterances,
+		replyCounts,
+		reactions,
+		hasOlder,
+		isFetchingOlder,
+		fetchOlder,
+		room,
+	} = useSync(beingId);
 
 	// Utterances come directly from sync system with real-time updates
 
@@ -71,6 +105,38 @@ export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 		},
 	});
 
+	// Stop / retry controls for bot responses
+	const cancelIntention = api.intention.cancel.useMutation({
+		onError: (error) => {
+			chatLogger.error(error, "Failed to stop response");
+			toast.error(`Failed to stop response: ${error.message}`);
+		},
+	});
+	const regenerateIntention = api.intention.regenerate.useMutation({
+		onError: (error) => {
+			chatLogger.error(error, "Failed to regenerate response");
+			toast.error(`Failed to regenerate response: ${error.message}`);
+		},
+	});
+
+	// Owners change their own messages; superusers moderate everyone's
+	const isCurrentUserSuperuser = isSuperuser(
+		syncBeings.find((b) => b.id === currentUserBeingId),
+	);
+	const editIntention = api.intention.edit.useMutation({
+		onSuccess: () => setEditing(null),
+		onError: (error) => {
+			chatLogger.error(error, "Failed to edit message");
+			toast.error(`Failed to edit message: ${error.message}`);
+		},
+	});
+	const deleteIntention = api.intention.delete.useMutation({
+		onError: (error) => {
+			chatLogger.error(error, "Failed to delete message");
+			toast.error(`Failed to delete message: ${error.message}`);
+		},
+	});
+
 	// Group messages by owner (consecutive messages from same user)
 	const groupedMessages = useMemo(() => {
 		const groups: Array<{ ownerId: BeingId; messages: Intention[] }> = [];
@@ -93,17 +159,31 @@ export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 		return groups;
 	}, [utterances]);
 
+	// Only the groups on screen are rendered; heights are measured as they mount
+	const virtualizer = useVirtualizer({
+		count: groupedMessages.length,
+		getScrollElement: () => chatContainerRef.current,
+		estimateSize: () => 96,
+		overscan: 6,
+		getItemKey: (index) => {
+			const group = groupedMessages[index];
+			return `${group?.ownerId}-${group?.messages[0]?.id ?? index}`;
+		},
+	});
+
 	// Handle message submission
 	const handleSubmit = async () => {
-		if (!message.trim() || isSubmitting) return;
+		if ((!message.trim() && attachments.length === 0) || isSubmitting) return;
 
 		setIsSubmitting(true);
 		try {
 			await createUtterance.mutateAsync({
 				content: message.trim(),
 				beingId,
+				attachments: attachments.length > 0 ? attachments : undefined,
 			});
 			setMessage("");
+			setAttachments([]);
 		} finally {
 			setIsSubmitting(false);
 		}
@@ -121,10 +201,22 @@ export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 		);
 	}, []);
 
-	// Handle scroll events to show/hide scroll-to-bottom button
+	// Handle scroll events to show/hide scroll-to-bottom button and load older pages
 	const handleScroll = useCallback(() => {
 		setShowScrollToBottom(!isScrolledToBottom());
-	}, [isScrolledToBottom]);
+
+		const container = chatContainerRef.current;
+		if (
+			container &&
+			initialScrollDoneRef.current &&
+			hasOlder &&
+			!isFetchingOlder &&
+			container.scrollTop < LOAD_OLDER_THRESHOLD_PX
+		) {
+			olderPageAnchorRef.current = container.scrollHeight - container.scrollTop;
+			fetchOlder();
+		}
+	}, [isScrolledToBottom, hasOlder, isFetchingOlder, fetchOlder]);
 
 	// Scroll to bottom function
 	const scrollToBottom = () => {
@@ -136,9 +228,24 @@ export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 
 	// Auto-scroll to bottom when new messages arrive (including streaming updates)
 	useLayoutEffect(() => {
-		// Only auto-scroll if already near bottom
 		const container = chatContainerRef.current;
-		if (!container) return;
+		if (!container || utterances.length === 0) return;
+
+		// First page loaded: jump to the newest message, no animation
+		if (!initialScrollDoneRef.current) {
+			container.scrollTop = container.scrollHeight;
+			initialScrollDoneRef.current = true;
+			return;
+		}
+
+		// Older page loaded: keep the messages on screen where they were
+		if (olderPageAnchorRef.current !== null) {
+			container.scrollTop = container.scrollHeight - olderPageAnchorRef.current;
+			olderPageAnchorRef.current = null;
+			return;
+		}
+
+		// Only auto-scroll if already near bottom
 
 		const threshold = 50;
 		const isNearBottom =
@@ -150,21 +257,6 @@ export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 		}
 	}, [utterances]);
 
-	// Mount-time scroll to bottom (immediate, no animation)
-	useLayoutEffect(() => {
-		if (chatContainerRef.current && typeof window !== "undefined") {
-			const container = chatContainerRef.current;
-			const originalScrollBehavior = container.style.scrollBehavior;
-
-			container.style.scrollBehavior = "auto";
-			container.scrollTop = container.scrollHeight;
-
-			setTimeout(() => {
-				container.style.scrollBehavior = originalScrollBehavior;
-			}, 0);
-		}
-	}, []);
-
 	// Set up scroll listener for scroll-to-bottom button
 	useEffect(() => {
 		const container = chatContainerRef.current;
@@ -195,105 +287,339 @@ export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 				{/* Top shadow overlay */}
 				<div className="pointer-events-none absolute top-0 right-0 left-0 z-10 h-4 bg-gradient-to-b from-black/30 to-transparent" />
 
-				<ul
+				<div
 					ref={chatContainerRef}
-					className="flex grow flex-col gap-3 overflow-y-auto px-4 pt-4 pb-0 sm:px-6"
+					className="grow overflow-y-auto px-4 pt-4 pb-0 sm:px-6"
 				>
-					{groupedMessages.map((group, groupIndex) => {
-						const isCurrentUser = group.ownerId === currentUserBeingId;
-						// Use sync beings for real-time updates
-						const beingData = syncBeings.find((b) => b.id === group.ownerId);
-						const knownBeingType =
-							group.ownerId === AI_AGENT_BEING_ID
-								? "bot"
-								: (beingData?.type as BeingType) || "guest";
-						const firstMessage = group.messages[0];
-						const firstMessageTime = firstMessage
-							? new Date(firstMessage.createdAt).toLocaleTimeString([], {
-									hour: "2-digit",
-									minute: "2-digit",
-								})
-							: "";
-
-						return (
-							<li
-								key={`${group.ownerId}-${group.messages[0]?.id || groupIndex}`}
-								className={`group flex items-end gap-2 ${isCurrentUser ? "flex-row-reverse" : ""}`}
-							>
-								<Avatar
-									beingId={group.ownerId}
-									beingType={knownBeingType}
-									autoDetectType={false}
-									size="sm"
-								/>
-								<div
-									className={`flex w-full max-w-[75%] flex-col gap-0.5 ${isCurrentUser ? "items-end" : "items-start"}`}
+					{(isFetchingOlder || (!hasOlder && utterances.length > 0)) && (
+						<p className="pb-3 text-center text-outline text-white/70 text-xs">
+							{isFetchingOlder
+								? "Loading earlier messages…"
+								: "Beginning of the conversation"}
+						</p>
+					)}
+					<ul
+						className="relative w-full"
+						style={{ height: virtualizer.getTotalSize() }}
+					>
+						{virtualizer.getVirtualItems().map((virtualRow) => {
+							const group = groupedMessages[virtualRow.index];
+							if (!group) return null;
+							const isCurrentUser = group.ownerId === currentUserBeingId;
+							// Use sync beings for real-time updates
+							const beingData = syncBeings.find((b) => b.id === group.ownerId);
+							const knownBeingType =
+								group.ownerId === AI_AGENT_BEING_ID
+									? "bot"
+									: (beingData?.type as BeingType) || "guest";
+							const firstMessage = group.messages[0];
+							const firstMessageTime = firstMessage
+								? new Date(firstMessage.createdAt).toLocaleTimeString([], {
+										hour: "2-digit",
+										minute: "2-digit",
+									})
+								: "";
+
+							return (
+								<li
+									key={virtualRow.key}
+									data-index={virtualRow.index}
+									ref={virtualizer.measureElement}
+									className={`group absolute top-0 left-0 flex w-full items-end gap-2 pb-3 ${isCurrentUser ? "flex-row-reverse" : ""}`}
+									style={{ transform: `translateY(${virtualRow.start}px)` }}
 								>
-									<header
-										className={`flex items-baseline gap-2 ${isCurrentUser ? "flex-row-reverse" : ""}`}
-									>
-										<span className="font-medium text-outline text-white">
-											{beingData?.name || group.ownerId}
-										</span>
-										<time className="text-gray-500 text-outline text-xs dark:text-gray-400">
-											{firstMessageTime}
-										</time>
-									</header>
+									<Avatar
+										beingId={group.ownerId}
+										beingType={knownBeingType}
+										autoDetectType={false}
+										size="sm"
+									/>
 									<div
-										className={`flex flex-col gap-0.5 ${isCurrentUser ? "items-end" : "items-start"}`}
+										className={`flex w-full max-w-[75%] flex-col gap-0.5 ${isCurrentUser ? "items-end" : "items-start"}`}
 									>
-										{group.messages.map((utterance) => {
-											const content = utterance.content as ContentNode[];
-											const isEmpty =
-												!content ||
-												content.length === 0 ||
-												(content.length === 1 && content[0] === "");
-											const isError = utterance.state === "failed";
-
-											return (
-												<div
-													key={utterance.id}
-													className={`rounded-2xl px-4 py-2 shadow ${
-														isError
-															? "border border-red-300 bg-red-100/90 text-red-900 dark:border-red-500/50 dark:bg-red-950/50 dark:text-red-100"
-															: isCurrentUser
-																? "bg-blue-500 text-white"
-																: "bg-gray-100 text-gray-900 dark:bg-gray-700/60 dark:text-gray-50"
-													}`}
-												>
-													{isError ? (
-														<div className="flex items-center gap-2 text-outline-error">
-															<span className="text-red-500">⚠️</span>
-															<span className="font-medium">
-																Error:{" "}
-																{content && content.length > 0
-																	? String(content[0])
-																	: "Failed to get response"}
+										<header
+											className={`flex items-baseline gap-2 ${isCurrentUser ? "flex-row-reverse" : ""}`}
+										>
+											<span className="font-medium text-outline text-white">
+												{beingData?.name || group.ownerId}
+											</span>
+											<time className="text-gray-500 text-outline text-xs dark:text-gray-400">
+												{firstMessageTime}
+											</time>
+										</header>
+										<div
+											className={`flex flex-col gap-0.5 ${isCurrentUser ? "items-end" : "items-start"}`}
+										>
+											{group.messages.map((utterance) => {
+												const content = utterance.content as ContentNode[];
+												const isEmpty =
+													!content ||
+													content.length === 0 ||
+													(content.length === 1 && content[0] === "");
+												const isDeleted = !!utterance.deletedAt;
+												const isError =
+													utterance.state === "failed" && !isDeleted;
+												const canChange =
+													!isDeleted &&
+													utterance.state !== "active" &&
+													canEdit(
+														currentUserBeingId,
+														utterance.ownerId,
+														isCurrentUserSuperuser,
+													);
+												const isEditing = editing?.id === utterance.id;
+												const isBotResponse =
+													knownBeingType === "bot" &&
+													typeof utterance.metadata?.triggeringIntentionId ===
+														"string";
+												// Stop / retry follow the server's rule: bot owner, trigger sender or superuser
+												const triggerOwnerId =
+													typeof utterance.metadata?.triggeringOwnerId ===
+													"string"
+														? utterance.metadata.triggeringOwnerId
+														: utterances.find(
+																(i) =>
+																	i.id ===
+																	utterance.metadata?.triggeringIntentionId,
+															)?.ownerId;
+												const canControl =
+													isBotResponse &&
+													canControlBotResponse(
+														currentUserBeingId,
+														beingData?.ownerId,
+														triggerOwnerId,
+														isCurrentUserSuperuser,
+													);
+												const replyCount = replyCounts[utterance.id] ?? 0;
+												const alternateCount = Array.isArray(
+													utterance.metadata?.alternates,
+												)
+													? utterance.metadata.alternates.length
+													: 0;
+
+												return (
+													<div
+														key={utterance.id}
+														className={`rounded-2xl px-4 py-2 shadow ${
+															isError
+																? "border border-red-300 bg-red-100/90 text-red-900 dark:border-red-500/50 dark:bg-red-950/50 dark:text-red-100"
+																: isCurrentUser
+																	? "bg-blue-500 text-white"
+																	: "bg-gray-100 text-gray-900 dark:bg-gray-700/60 dark:text-gray-50"
+														}`}
+													>
+														{isDeleted ? (
+															<span className="text-sm italic opacity-70">
+																Message removed
+															</span>
+														) : isEditing ? (
+															<form
+																className="flex min-w-64 flex-col gap-2"
+																onSubmit={(e) => {
+																	e.preventDefault();
+																	editIntention.mutate({
+																		id: utterance.id,
+																		content: editing.text,
+																	});
+																}}
+															>
+																<Textarea
+																	value={editing.text}
+																	onChange={(e) =>
+																		setEditing({
+																			id: utterance.id,
+																			text: e.target.value,
+																		})
+																	}
+																	onKeyDown={(e) => {
+																		if (e.key === "Escape") setEditing(null);
+																	}}
+																	className="bg-white text-gray-900"
+																	aria-label="Edit message"
+																	autoFocus
+																/>
+																<div className="flex justify-end gap-2">
+																	<Button
+																		type="button"
+																		variant="ghost"
+																		size="sm"
+																		onClick={() => setEditing(null)}
+																	>
+																		Cancel
+																	</Button>
+																	<Button
+																		type="submit"
+																		size="sm"
+																		disabled={editIntention.isPending}
+																	>
+																		Save
+																	</Button>
+																</div>
+															</form>
+														) : isError ? (
+															<div className="flex items-center gap-2 text-outline-error">
+																<span className="text-red-500">⚠️</span>
+																<span className="font-medium">
+																	Error:{" "}
+																	{content && content.length > 0
+																		? String(content[0])
+																		: "Failed to get response"}
+																</span>
+															</div>
+														) : isEmpty && utterance.state === "complete" ? (
+															<div className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
+																<span>⚠️</span>
+																<span className="italic">
+																	Empty response received
+																</span>
+															</div>
+														) : (
+															<RichContent nodes={content} />
+														)}
+														{utterance.state === "active" && (
+															<span className="inline-block h-2 w-2 animate-pulse rounded-full bg-current" />
+														)}
+														{utterance.editedAt && !isDeleted && (
+															<span className="text-xs italic opacity-70">
+																(edited)
 															</span>
-														</div>
-													) : isEmpty && utterance.state === "complete" ? (
-														<div className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
-															<span>⚠️</span>
-															<span className="italic">
-																Empty response received
+														)}
+														{utterance.state === "cancelled" && (
+															<span className="text-xs italic opacity-70">
+																Stopped
 															</span>
-														</div>
-													) : (
-														<RichContent nodes={content} />
-													)}
-													{utterance.state === "active" && (
-														<span className="inline-block h-2 w-2 animate-pulse rounded-full bg-current" />
-													)}
-												</div>
-											);
-										})}
+														)}
+														{utterance.state !== "active" && !isError && (
+															<div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+																{utterance.type === "utterance" &&
+																	!isDeleted && (
+																		<MessageReactions
+																			intentionId={utterance.id}
+																			reactions={reactions[utterance.id] ?? []}
+																			currentUserBeingId={currentUserBeingId}
+																			beings={syncBeings}
+																		/>
+																	)}
+																{!isDeleted || replyCount > 0 ? (
+																	<button
+																		type="button"
+																		onClick={() =>
+																			setOpenThreadId(utterance.id)
+																		}
+																		className={`inline-flex items-center gap-1 hover:opacity-100 ${
+																			replyCount > 0
+																				? "opacity-70"
+																				: "opacity-0 focus:opacity-70 group-hover:opacity-70"
+																		}`}
+																		aria-label={
+																			replyCount > 0
+																				? "Open thread"
+																				: "Reply in thread"
+																		}
+																	>
+																		<MessageSquare className="size-3" />
+																		{replyCount > 0
+																			? `${replyCount} ${replyCount === 1 ? "reply" : "replies"}`
+																			: "Reply"}
+																	</button>
+																) : null}
+																{canChange && !isEditing && (
+																	<>
+																		{utterance.type === "utterance" && (
+																			<button
+																				type="button"
+																				onClick={() =>
+																					setEditing({
+																						id: utterance.id,
+																						text: toMentionTokenText(content),
+																					})
+																				}
+																				className="inline-flex items-center gap-1 opacity-0 hover:opacity-100 focus:opacity-70 group-hover:opacity-70"
+																				aria-label="Edit message"
+																			>
+																				<Pencil className="size-3" />
+																				Edit
+																			</button>
+																		)}
+																		<button
+																			type="button"
+																			onClick={() => {
+																				if (
+																					window.confirm("Remove this message?")
+																				) {
+																					deleteIntention.mutate({
+																						id: utterance.id,
+																					});
+																				}
+																			}}
+																			disabled={deleteIntention.isPending}
+																			className="inline-flex items-center gap-1 opacity-0 hover:opacity-100 focus:opacity-70 group-hover:opacity-70"
+																			aria-label="Delete message"
+																		>
+																			<Trash2 className="size-3" />
+																			Delete
+																		</button>
+																	</>
+																)}
+															</div>
+														)}
+														{isBotResponse && (
+															<div className="mt-1 flex items-center gap-2 text-xs opacity-70">
+																{canControl && utterance.state === "active" && (
+																	<button
+																		type="button"
+																		onClick={() =>
+																			cancelIntention.mutate({
+																				id: utterance.id,
+																			})
+																		}
+																		disabled={cancelIntention.isPending}
+																		className="inline-flex items-center gap-1 hover:opacity-100"
+																		aria-label="Stop response"
+																	>
+																		<Square className="size-3" />
+																		Stop
+																	</button>
+																)}
+																{canControl &&
+																	!isDeleted &&
+																	utterance.state !== "active" && (
+																		<button
+																			type="button"
+																			onClick={() =>
+																				regenerateIntention.mutate({
+																					id: utterance.id,
+																				})
+																			}
+																			disabled={regenerateIntention.isPending}
+																			className="inline-flex items-center gap-1 hover:opacity-100"
+																			aria-label="Regenerate response"
+																		>
+																			<RotateCcw className="size-3" />
+																			Retry
+																		</button>
+																	)}
+																{alternateCount > 0 && (
+																	<span>
+																		{alternateCount} earlier{" "}
+																		{alternateCount === 1
+																			? "attempt"
+																			: "attempts"}
+																	</span>
+																)}
+															</div>
+														)}
+													</div>
+												);
+											})}
+										</div>
 									</div>
-								</div>
-							</li>
-						);
-					})}
-					<li ref={bottomAnchorRef} className="h-px w-full" />
-				</ul>
+								</li>
+							);
+						})}
+					</ul>
+					<div ref={bottomAnchorRef} className="h-px w-full" />
+				</div>
 
 				{/* Bottom shadow overlay */}
 				<div className="pointer-events-none absolute right-0 bottom-20 left-0 z-10 h-4 bg-gradient-to-t from-white/20 to-transparent" />
@@ -322,15 +648,30 @@ export function Chat({ currentUserBeingId, beingId }: ChatProps) {
 					</button>
 				)}
 
+				<ThreadPanel
+					thread={
+						utterances.find((utterance) => utterance.id === openThreadId) ??
+						null
+					}
+					onClose={() => setOpenThreadId(null)}
+					beingId={beingId}
+					currentUserBeingId={currentUserBeingId}
+					beings={syncBeings}
+					room={room}
+				/>
+
 				<div className="sticky bottom-0 flex w-full min-w-0 items-center gap-2 border-gray-200 border-t bg-white px-3 py-3 sm:px-4 dark:border-gray-800 dark:bg-gray-900">
 					<ChatInput
 						ref={chatInputRef}
 						value={message}
 						onChange={setMessage}
 						onSubmit={handleSubmit}
+						attachments={attachments}
+						onAttachmentsChange={setAttachments}
 						disabled={isSubmitting}
 						placeholder="Say something..."
 						currentUserBeingId={currentUserBeingId}
+						locationId={beingId}
 						room={room}
 					/>
 				</div>
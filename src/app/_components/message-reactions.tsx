@@ -0,0 +1,103 @@
+// src/app/_components/message-reactions.tsx
+"use client";
+
+import { SmilePlus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "~/components/ui/popover";
+import type { BeingId, IntentionId, ReactionSummary } from "~/lib/types";
+import type { Being } from "~/server/db/types";
+import { api } from "~/trpc/react";
+
+// Offered by the add-reaction picker
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "🎉", "😮", "👎"];
+
+interface MessageReactionsProps {
+	intentionId: IntentionId;
+	reactions: ReactionSummary[];
+	currentUserBeingId: BeingId;
+	beings: Being[];
+}
+
+/**
+ * Reaction counters under a message, plus a picker to add one.
+ * Counts update through reaction-changed sync events, not the mutation result.
+ */
+export function MessageReactions({
+	intentionId,
+	reactions,
+	currentUserBeingId,
+	beings,
+}: MessageReactionsProps) {
+	const [pickerOpen, setPickerOpen] = useState(false);
+	const react = api.intention.react.useMutation({
+		onError: (error) => {
+			toast.error(`Failed to react: ${error.message}`);
+		},
+	});
+
+	const toggle = (emoji: string) => {
+		setPickerOpen(false);
+		react.mutate({ id: intentionId, emoji });
+	};
+
+	const nameOf = (id: BeingId) => beings.find((b) => b.id === id)?.name ?? id;
+
+	return (
+		<>
+			{reactions.map(({ emoji, beingIds }) => {
+				const reacted = beingIds.includes(currentUserBeingId);
+				return (
+					<button
+						key={emoji}
+						type="button"
+						onClick={() => toggle(emoji)}
+						disabled={react.isPending}
+						title={beingIds.map(nameOf).join(", ")}
+						aria-pressed={reacted}
+						className={`inline-flex items-center gap-1 rounded-full border px-1.5 py-0.5 ${
+							reacted
+								? "border-blue-300 bg-blue-400/30"
+								: "border-current/20 bg-black/10 hover:bg-black/20"
+						}`}
+					>
+						<span>{emoji}</span>
+						<span className="tabular-nums">{beingIds.length}</span>
+					</button>
+				);
+			})}
+			<Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+				<PopoverTrigger asChild>
+					<button
+						type="button"
+						className={`inline-flex items-center gap-1 hover:opacity-100 ${
+							pickerOpen
+								? "opacity-100"
+								: "opacity-0 focus:opacity-70 group-hover:opacity-70"
+						}`}
+						aria-label="Add reaction"
+					>
+						<SmilePlus className="size-3" />
+					</button>
+				</PopoverTrigger>
+				<PopoverContent className="flex w-auto gap-1 p-1">
+					{QUICK_REACTIONS.map((emoji) => (
+						<button
+							key={emoji}
+							type="button"
+							onClick={() => toggle(emoji)}
+							className="rounded p-1 text-lg hover:bg-accent"
+							aria-label={`React with ${emoji}`}
+						>
+							{emoji}
+						</button>
+					))}
+				</PopoverContent>
+			</Popover>
+		</>
+	);
+}
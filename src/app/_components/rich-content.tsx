@@ -5,6 +5,12 @@ import ReactMarkdown from "react-markdown";
 import rehypeRaw from "rehype-raw";
 import rehypeSanitize from "rehype-sanitize";
 import remarkGfm from "remark-gfm";
+import {
+	type MentionIslandProps,
+	type StructuredIsland,
+	isMentionIsland,
+	parseStructuredIsland,
+} from "~/lib/types";
 
 export type ContentNode = string | ContentDataIsland;
 
@@ -25,58 +31,163 @@ const typeClass: Record<string, string> = {
 
 import ErrorBoundary from "~/components/ui/error-boundary";
 
+// Markdown links standing in for mentions point at their index in the segment
+const MENTION_HREF_PREFIX = "#mention-";
+
+type Segment =
+	| { markdown: string; mentions: MentionIslandProps[] }
+	| { island: ContentDataIsland };
+
+/**
+ * Mentions sit inside the surrounding text, so each run of strings and
+ * mentions becomes one markdown document, with the mentions as links
+ */
+function toSegments(nodes: ContentNode[]): Segment[] {
+	const segments: Segment[] = [];
+	for (const node of nodes) {
+		const last = segments[segments.length - 1];
+		const run =
+			last && "markdown" in last
+				? last
+				: { markdown: "", mentions: [] as MentionIslandProps[] };
+		if (typeof node === "string") {
+			run.markdown += node;
+		} else if (isMentionIsland(node)) {
+			const name = node.props.name.replace(/[\\[\]*_`<>]/g, "\\$&");
+			run.markdown += `[@${name}](${MENTION_HREF_PREFIX}${run.mentions.length})`;
+			run.mentions.push(node.props);
+		} else {
+			segments.push({ island: node });
+			continue;
+		}
+		if (run !== last) segments.push(run);
+	}
+	return segments;
+}
+
 export const RichContent: FC<{ nodes: ContentNode[] }> = ({ nodes }) => (
 	<ErrorBoundary>
 		<article className="prose prose-slate dark:prose-invert max-w-none">
-			{nodes.map((n, i) => {
+			{toSegments(nodes).map((segment, i) => {
 				const key =
-					typeof n === "string" ? `string-${i}` : `island-${i}-${n.type}`;
-				return typeof n === "string" ? (
-					<ReactMarkdown
+					"markdown" in segment
+						? `string-${i}`
+						: `island-${i}-${segment.island.type}`;
+				return "markdown" in segment ? (
+					<Markdown
 						key={key}
-						remarkPlugins={[remarkGfm]}
-						rehypePlugins={[rehypeRaw, rehypeSanitize]}
-						components={{
-							a: (props) => (
-								<a
-									{...props}
-									className="text-sky-500 underline hover:text-sky-600 dark:text-sky-400 dark:hover:text-sky-300"
-									target="_blank"
-									rel="noopener noreferrer"
-								/>
-							),
-							code: (props) => {
-								const { children, className } = props;
-								// Check for language class to determine if it's a block or inline
-								const isBlock = /language-/.test(className || "");
-
-								if (isBlock) {
-									return (
-										<pre className="not-prose overflow-x-auto rounded-lg bg-slate-900 p-4 text-white dark:bg-gray-800/70">
-											<code className={className}>{children}</code>
-										</pre>
-									);
-								}
-
-								return (
-									<code className="not-prose rounded bg-slate-200 px-1.5 py-0.5 font-mono text-slate-800 dark:bg-slate-700 dark:text-slate-200">
-										{children}
-									</code>
-								);
-							},
-						}}
-					>
-						{n}
-					</ReactMarkdown>
+						text={segment.markdown}
+						mentions={segment.mentions}
+					/>
 				) : (
-					<DataIsland key={key} island={n} />
+					<DataIsland key={key} island={segment.island} />
 				);
 			})}
 		</article>
 	</ErrorBoundary>
 );
 
+const Markdown: FC<{ text: string; mentions: MentionIslandProps[] }> = ({
+	text,
+	mentions,
+}) => (
+	<ReactMarkdown
+		remarkPlugins={[remarkGfm]}
+		rehypePlugins={[rehypeRaw, rehypeSanitize]}
+		components={{
+			a: (props) => {
+				const mention = props.href?.startsWith(MENTION_HREF_PREFIX)
+					? mentions[Number(props.href.slice(MENTION_HREF_PREFIX.length))]
+					: undefined;
+				if (mention) {
+					return (
+						<span
+							className="rounded bg-sky-500/20 px-1 font-medium text-sky-700 dark:text-sky-300"
+							title={mention.beingId}
+						>
+							@{mention.name}
+						</span>
+					);
+				}
+				return (
+					<a
+						{...props}
+						className="text-sky-500 underline hover:text-sky-600 dark:text-sky-400 dark:hover:text-sky-300"
+						target="_blank"
+						rel="noopener noreferrer"
+					/>
+				);
+			},
+			code: (props) => {
+				const { children, className } = props;
+				// Check for language class to determine if it's a block or inline
+				const isBlock = /language-/.test(className || "");
+
+				if (isBlock) {
+					return (
+						<pre className="not-prose overflow-x-auto rounded-lg bg-slate-900 p-4 text-white dark:bg-gray-800/70">
+							<code className={className}>{children}</code>
+						</pre>
+					);
+				}
+
+				return (
+					<code className="not-prose rounded bg-slate-200 px-1.5 py-0.5 font-mono text-slate-800 dark:bg-slate-700 dark:text-slate-200">
+						{children}
+					</code>
+				);
+			},
+		}}
+	>
+		{text}
+	</ReactMarkdown>
+);
+
+// Only render image sources we'd also accept on upload
+const isSafeImageSrc = (src: unknown): src is string =>
+	typeof src === "string" &&
+	(src.startsWith("https://") || src.startsWith("data:image/"));
+
 const DataIsland: FC<{ island: ContentDataIsland }> = ({ island }) => {
+	if (island.type === "image" && isSafeImageSrc(island.props?.src)) {
+		const alt =
+			typeof island.props?.alt === "string" ? island.props.alt : "Image";
+		return (
+			<a
+				href={island.props.src}
+				target="_blank"
+				rel="noopener noreferrer"
+				className="not-prose inline-block"
+			>
+				<img
+					src={island.props.src}
+					alt={alt}
+					className="my-1 max-h-64 max-w-full rounded-lg"
+				/>
+			</a>
+		);
+	}
+
+	// A bot's reasoning, collapsed so it doesn't crowd out the answer
+	if (island.type === "thinking") {
+		return (
+			<details className="not-prose my-2 rounded-lg border border-slate-300 border-dashed px-3 py-2 text-slate-500 text-sm dark:border-slate-600/50 dark:text-slate-400">
+				<summary className="cursor-pointer select-none font-medium">
+					Thinking
+					{island.props?.visibility === "owner"
+						? " (visible to the owner)"
+						: ""}
+				</summary>
+				<div className="mt-2 opacity-80">
+					<RichContent nodes={island.content ?? []} />
+				</div>
+			</details>
+		);
+	}
+
+	const structured = parseStructuredIsland(island);
+	if (structured) return <StructuredDataIsland island={structured} />;
+
 	const cls = typeClass[island.type] ?? typeClass.default;
 	return (
 		<button
@@ -89,3 +200,94 @@ const DataIsland: FC<{ island: ContentDataIsland }> = ({ island }) => {
 		</button>
 	);
 };
+
+const cardClass =
+	"not-prose my-2 rounded-lg border border-slate-300 bg-slate-50 p-3 text-slate-800 dark:border-slate-600/50 dark:bg-slate-800/50 dark:text-slate-200";
+
+const StructuredDataIsland: FC<{ island: StructuredIsland }> = ({ island }) => {
+	switch (island.type) {
+		case "poll":
+			return (
+				<div className={cardClass}>
+					<div className="mb-2 font-medium">{island.props.question}</div>
+					<ul className="space-y-1">
+						{island.props.options.map((option) => (
+							<li
+								key={option}
+								className="rounded-md border border-slate-300 px-2 py-1 text-sm dark:border-slate-600/50"
+							>
+								{option}
+							</li>
+						))}
+					</ul>
+				</div>
+			);
+		case "task-list":
+			return (
+				<div className={cardClass}>
+					{island.props.title && (
+						<div className="mb-2 font-medium">{island.props.title}</div>
+					)}
+					<ul className="space-y-1">
+						{island.props.items.map((item, i) => (
+							<li
+								key={`${i}-${item.text}`}
+								className="flex items-start gap-2 text-sm"
+							>
+								<input
+									type="checkbox"
+									checked={item.done}
+									readOnly
+									disabled
+									className="mt-0.5"
+								/>
+								<span className={item.done ? "line-through opacity-70" : ""}>
+									{item.text}
+								</span>
+							</li>
+						))}
+					</ul>
+				</div>
+			);
+		case "link-card":
+			return (
+				<a
+					href={island.props.url}
+					target="_blank"
+					rel="noopener noreferrer"
+					className={`${cardClass} block hover:bg-slate-100 dark:hover:bg-slate-800`}
+				>
+					<div className="font-medium text-sky-600 dark:text-sky-400">
+						{island.props.title}
+					</div>
+					{island.props.description && (
+						<div className="mt-1 text-sm">{island.props.description}</div>
+					)}
+					<div className="mt-1 truncate text-slate-500 text-xs">
+						{island.props.url}
+					</div>
+				</a>
+			);
+		case "code-block":
+			return (
+				<div className="not-prose my-2 overflow-hidden rounded-lg bg-slate-900 text-white dark:bg-gray-800/70">
+					{island.props.filename && (
+						<div className="border-slate-700 border-b px-4 py-1.5 font-mono text-slate-300 text-xs">
+							{island.props.filename}
+						</div>
+					)}
+					<pre className="overflow-x-auto p-4">
+						<code
+							className={
+								island.props.language
+									? `language-${island.props.language}`
+									: undefined
+							}
+						>
+							{island.props.code}
+						</code>
+					</pre>
+				</div>
+			);
+	}
+};
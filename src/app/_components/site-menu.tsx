@@ -1,13 +1,14 @@
 // src/app/_components/site-menu.tsx
 "use client";
 
-import { ArrowRight, Plus } from "lucide-react";
+import { ArrowRight, Bot, Plus } from "lucide-react";
 import { signOut, useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import { FormProvider, useForm } from "react-hook-form";
 import { BeingCreateModal } from "~/components/being-create-modal";
 import { BeingSelectField } from "~/components/being-selector";
+import { BotGalleryModal } from "~/components/bot-gallery-modal";
 import { PWAInstallButton } from "~/components/pwa-install-button";
 import { Avatar } from "~/components/ui/avatar";
 import { Button } from "~/components/ui/button";
@@ -88,6 +89,7 @@ export function SiteMenu({ currentSpaceId }: { currentSpaceId?: BeingId }) {
 	const router = useRouter();
 	const { data: session } = useSession();
 	const [isCreatingSpace, setIsCreatingSpace] = useState(false);
+	const [isGalleryOpen, setIsGalleryOpen] = useState(false);
 
 	const handleSpaceCreated = (spaceId: BeingId) => {
 		console.log(
@@ -123,6 +125,14 @@ export function SiteMenu({ currentSpaceId }: { currentSpaceId?: BeingId }) {
 						<Plus className="h-4 w-4" />
 						Create New Space
 					</Button>
+					<Button
+						variant="outline"
+						className="mt-2 w-full gap-2 border-white/20 bg-transparent hover:bg-white/10"
+						onClick={() => setIsGalleryOpen(true)}
+					>
+						<Bot className="h-4 w-4" />
+						Bot Gallery
+					</Button>
 				</div>
 				<div className="mt-auto space-y-4 p-4">
 					<PWAInstallButton />
@@ -198,6 +208,12 @@ export function SiteMenu({ currentSpaceId }: { currentSpaceId?: BeingId }) {
 					type: "space",
 				}}
 			/>
+
+			<BotGalleryModal
+				isOpen={isGalleryOpen}
+				onClose={() => setIsGalleryOpen(false)}
+				spaceId={currentSpaceId}
+			/>
 		</ErrorBoundary>
 	);
 }
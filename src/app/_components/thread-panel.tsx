@@ -0,0 +1,193 @@
+// src/app/_components/thread-panel.tsx
+"use client";
+
+import type { Room } from "livekit-client";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { RichContent } from "~/app/_components/rich-content";
+import { ChatInput, type ImageAttachment } from "~/components/chat-input";
+import { Avatar, type BeingType } from "~/components/ui/avatar";
+import { Button } from "~/components/ui/button";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from "~/components/ui/sheet";
+import { useIntentionsInLocation } from "~/hooks/use-intentions-in-location";
+import { logger } from "~/lib/logger.client";
+import type { ContentNode } from "~/server/db/content-types";
+import type { Being, BeingId, Intention } from "~/server/db/types";
+import { api } from "~/trpc/react";
+
+const threadLogger = logger.child({ name: "ThreadPanel" });
+
+interface ThreadPanelProps {
+	thread: Intention | null; // The thread's first message; the panel is closed without one
+	onClose: () => void;
+	beingId: BeingId;
+	currentUserBeingId: BeingId;
+	beings: Being[];
+	room: Room | null;
+}
+
+/**
+ * Side panel with a thread's first message, its replies and a reply box
+ */
+export function ThreadPanel({ thread, onClose, ...props }: ThreadPanelProps) {
+	return (
+		<Sheet open={!!thread} onOpenChange={(open) => !open && onClose()}>
+			<SheetContent
+				side="right"
+				className="w-full gap-0 bg-background/95 text-white sm:max-w-md"
+			>
+				<SheetHeader className="border-white/20 border-b">
+					<SheetTitle>Thread</SheetTitle>
+					<SheetDescription>
+						Replies stay out of the main chat.
+					</SheetDescription>
+				</SheetHeader>
+				{thread && <ThreadView thread={thread} {...props} />}
+			</SheetContent>
+		</Sheet>
+	);
+}
+
+function ThreadMessage({
+	intention,
+	beings,
+}: { intention: Intention; beings: Being[] }) {
+	const being = beings.find((b) => b.id === intention.ownerId);
+	return (
+		<li className="flex items-start gap-2">
+			<Avatar
+				beingId={intention.ownerId as BeingId}
+				beingType={(being?.type as BeingType) || "guest"}
+				autoDetectType={false}
+				size="sm"
+			/>
+			<div className="min-w-0 flex-1">
+				<header className="flex items-baseline gap-2">
+					<span className="font-medium text-sm">
+						{being?.name || intention.ownerId}
+					</span>
+					<time className="text-gray-400 text-xs">
+						{new Date(intention.createdAt).toLocaleTimeString([], {
+							hour: "2-digit",
+							minute: "2-digit",
+						})}
+					</time>
+				</header>
+				<div className="rounded-2xl bg-gray-700/60 px-3 py-2 text-gray-50">
+					{intention.deletedAt ? (
+						<span className="text-sm italic opacity-70">Message removed</span>
+					) : intention.state === "failed" ? (
+						<span className="text-red-300">
+							Error: {String(intention.content[0] ?? "Failed to get response")}
+						</span>
+					) : (
+						<RichContent nodes={intention.content as ContentNode[]} />
+					)}
+					{intention.state === "active" && (
+						<span className="inline-block h-2 w-2 animate-pulse rounded-full bg-current" />
+					)}
+				</div>
+			</div>
+		</li>
+	);
+}
+
+function ThreadView({
+	thread,
+	beingId,
+	currentUserBeingId,
+	beings,
+	room,
+}: Omit<ThreadPanelProps, "onClose"> & { thread: Intention }) {
+	const [message, setMessage] = useState("");
+	const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const bottomAnchorRef = useRef<HTMLDivElement>(null);
+
+	const {
+		intentions: replies,
+		hasOlder,
+		isFetchingOlder,
+		fetchOlder,
+	} = useIntentionsInLocation(beingId, thread.id);
+
+	const createUtterance = api.intention.createUtterance.useMutation({
+		onError: (error) => {
+			threadLogger.error(error, "Failed to send reply");
+			toast.error(`Failed to send reply: ${error.message}`);
+		},
+	});
+
+	// Follow new replies (including streaming bot replies)
+	const latestReply = replies[replies.length - 1];
+	useEffect(() => {
+		if (latestReply) {
+			bottomAnchorRef.current?.scrollIntoView({ behavior: "smooth" });
+		}
+	}, [latestReply]);
+
+	const handleSubmit = async () => {
+		if ((!message.trim() && attachments.length === 0) || isSubmitting) return;
+
+		setIsSubmitting(true);
+		try {
+			await createUtterance.mutateAsync({
+				content: message.trim(),
+				beingId,
+				parentId: thread.id,
+				attachments: attachments.length > 0 ? attachments : undefined,
+			});
+			setMessage("");
+			setAttachments([]);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	return (
+		<>
+			<div className="grow overflow-y-auto px-4 py-4">
+				<ul className="flex flex-col gap-3">
+					<ThreadMessage intention={thread} beings={beings} />
+					<li className="border-white/20 border-t" aria-hidden />
+					{hasOlder && (
+						<li className="text-center">
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={fetchOlder}
+								disabled={isFetchingOlder}
+							>
+								{isFetchingOlder ? "Loading…" : "Load earlier replies"}
+							</Button>
+						</li>
+					)}
+					{replies.map((reply) => (
+						<ThreadMessage key={reply.id} intention={reply} beings={beings} />
+					))}
+				</ul>
+				<div ref={bottomAnchorRef} className="h-px w-full" />
+			</div>
+			<div className="flex w-full min-w-0 items-center gap-2 border-gray-800 border-t bg-gray-900 px-3 py-3">
+				<ChatInput
+					value={message}
+					onChange={setMessage}
+					onSubmit={handleSubmit}
+					attachments={attachments}
+					onAttachmentsChange={setAttachments}
+					disabled={isSubmitting}
+					placeholder="Reply in thread..."
+					currentUserBeingId={currentUserBeingId}
+					locationId={beingId}
+					room={room}
+				/>
+			</div>
+		</>
+	);
+}
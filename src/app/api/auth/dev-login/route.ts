@@ -21,7 +21,7 @@ export async function GET(request: Request) {
 		const beingId: BeingId = "@test-user-being"; // Fixed dev user
 
 		// Check if being exists, if not create it
-		let being = await db.query.beings.findFirst({
+		const being = await db.query.beings.findFirst({
 			where: eq(beings.id, beingId),
 		});
 
@@ -29,7 +29,7 @@ export async function GET(request: Request) {
 			// Create the being
 			const { createBeing } = await import("~/lib/being-operations");
 
-			being = await createBeing(
+			await createBeing(
 				db,
 				{
 					id: beingId,
@@ -109,7 +109,6 @@ export default function BeingEditPage({ params }: BeingEditPageProps) {
 				content: being.content || undefined,
 				botModel: being.botModel || undefined,
 				botPrompt: being.botPrompt || undefined,
-				llmApiKey: being.llmApiKey || undefined,
 			};
 
 			methods.reset(formValues);
@@ -182,7 +181,7 @@ export default function BeingEditPage({ params }: BeingEditPageProps) {
 			<main className="container mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8">
 				<FormProvider {...methods}>
 					<form onSubmit={methods.handleSubmit(submit)} className="space-y-6">
-						<BeingForm />
+						<BeingForm apiKeyHint={being?.llmApiKeyLast4} />
 
 						{/* Mobile-friendly action buttons */}
 						<div className="-mx-4 sm:-mx-6 lg:-mx-8 sticky bottom-0 border-t bg-background/95 p-4 backdrop-blur supports-[backdrop-filter]:bg-background/60 sm:p-6 lg:p-8">
@@ -23,7 +23,7 @@ export default async function SpacePage({
 
 	// Temporarily disable prefetch to test refresh issue
 	// if (session?.user) {
-	// 	void api.intention.getAllUtterancesInBeing.prefetch({ beingId: beingId });
+	// 	void api.intention.list.prefetchInfinite({ beingId: beingId });
 	// 	// Prefetch beings for the site menu
 	// 	void api.being.getAll.prefetch();
 	// }
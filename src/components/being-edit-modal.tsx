@@ -88,7 +88,7 @@ export function BeingEditModal({
 						onSubmit={methods.handleSubmit(handleSubmit as any)}
 						className="space-y-6"
 					>
-						<BeingForm />
+						<BeingForm apiKeyHint={being?.llmApiKeyLast4} />
 						<div className="-mx-6 sticky bottom-0 border-t bg-background px-6 pt-4 pb-4">
 							<div className="flex gap-3">
 								<Button
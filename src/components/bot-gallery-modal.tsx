@@ -0,0 +1,406 @@
+"use client";
+
+import { Bot, Pencil, Plus, RefreshCw } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useState } from "react";
+import { Controller, FormProvider, useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { ModelSelectField } from "~/components/model-selector";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { ResponsiveModal } from "~/components/ui/responsive-modal";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/select";
+import { Textarea } from "~/components/ui/textarea";
+import type { BeingId } from "~/lib/types";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+type BotTemplateSummary = RouterOutputs["botTemplate"]["list"][number];
+
+interface BotGalleryModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	spaceId?: BeingId; // Where "Add to space" puts new bots
+}
+
+export function BotGalleryModal({
+	isOpen,
+	onClose,
+	spaceId,
+}: BotGalleryModalProps) {
+	const { data: session } = useSession();
+	const [editing, setEditing] = useState<BotTemplateSummary | "new" | null>(
+		null,
+	);
+
+	const { data: templates, isLoading } = api.botTemplate.list.useQuery(
+		undefined,
+		{ enabled: isOpen },
+	);
+
+	const handleClose = () => {
+		setEditing(null);
+		onClose();
+	};
+
+	return (
+		<ResponsiveModal
+			isOpen={isOpen}
+			onClose={handleClose}
+			title={
+				<>
+					<Bot className="h-6 w-6" />
+					{editing === "new"
+						? "New Bot Template"
+						: editing
+							? `Edit ${editing.name}`
+							: "Bot Gallery"}
+				</>
+			}
+			description={
+				editing
+					? "Changing the prompt, model, activation or tools creates a new version."
+					: "Add a bot to this space from a persona template."
+			}
+		>
+			{editing ? (
+				<BotTemplateForm
+					template={editing === "new" ? undefined : editing}
+					onDone={() => setEditing(null)}
+				/>
+			) : (
+				<div className="space-y-4">
+					{session && (
+						<Button
+							variant="outline"
+							className="w-full gap-2"
+							onClick={() => setEditing("new")}
+						>
+							<Plus className="h-4 w-4" />
+							New Template
+						</Button>
+					)}
+					{isLoading && (
+						<p className="text-muted-foreground text-sm">Loading templates…</p>
+					)}
+					{templates?.length === 0 && (
+						<p className="text-muted-foreground text-sm">No templates yet.</p>
+					)}
+					<div className="grid gap-3 md:grid-cols-2">
+						{templates?.map((template) => (
+							<TemplateCard
+								key={template.id}
+								template={template}
+								spaceId={spaceId}
+								isOwner={session?.user?.beingId === template.ownerId}
+								onEdit={() => setEditing(template)}
+							/>
+						))}
+					</div>
+				</div>
+			)}
+		</ResponsiveModal>
+	);
+}
+
+function TemplateCard({
+	template,
+	spaceId,
+	isOwner,
+	onEdit,
+}: {
+	template: BotTemplateSummary;
+	spaceId?: BeingId;
+	isOwner: boolean;
+	onEdit: () => void;
+}) {
+	const { data: session } = useSession();
+	const utils = api.useUtils();
+
+	const instantiate = api.botTemplate.instantiate.useMutation({
+		onSuccess: async (bot) => {
+			await utils.being.getByLocation.invalidate();
+			await utils.botTemplate.list.invalidate();
+			toast.success(`Added ${bot.name} to the space`);
+		},
+		onError: (err) => {
+			toast.error(`Failed to add bot: ${err.message}`);
+		},
+	});
+
+	const rollOut = api.botTemplate.rollOut.useMutation({
+		onSuccess: async ({ updated, skipped }) => {
+			await utils.botTemplate.list.invalidate();
+			await utils.being.invalidate();
+			toast.success(
+				`Updated ${updated.length} bot${updated.length === 1 ? "" : "s"} to v${template.currentVersion}${skipped.length > 0 ? ` (${skipped.length} not yours, skipped)` : ""}`,
+			);
+		},
+		onError: (err) => {
+			toast.error(`Failed to roll out: ${err.message}`);
+		},
+	});
+
+	return (
+		<div className="space-y-3 rounded-lg border p-4">
+			<div className="flex items-start justify-between gap-2">
+				<div className="min-w-0">
+					<div className="truncate font-medium">{template.name}</div>
+					{template.current.botModel && (
+						<div className="truncate text-muted-foreground text-xs">
+							{template.current.botModel}
+						</div>
+					)}
+				</div>
+				<Badge variant="secondary">v{template.currentVersion}</Badge>
+			</div>
+			{template.description && (
+				<p className="text-muted-foreground text-sm">{template.description}</p>
+			)}
+			<p className="line-clamp-3 whitespace-pre-wrap text-sm">
+				{template.current.botPrompt}
+			</p>
+			<div className="text-muted-foreground text-xs">
+				{template.botCount} bot{template.botCount === 1 ? "" : "s"}
+				{template.outdatedBotCount > 0 &&
+					` · ${template.outdatedBotCount} on an older version`}
+			</div>
+			<div className="flex flex-wrap gap-2">
+				{spaceId && session && (
+					<Button
+						size="sm"
+						className="gap-1"
+						disabled={instantiate.isPending}
+						onClick={() =>
+							instantiate.mutate({ templateId: template.id, spaceId })
+						}
+					>
+						<Plus className="h-4 w-4" />
+						Add to space
+					</Button>
+				)}
+				{isOwner && (
+					<Button
+						size="sm"
+						variant="outline"
+						className="gap-1"
+						onClick={onEdit}
+					>
+						<Pencil className="h-4 w-4" />
+						Edit
+					</Button>
+				)}
+				{isOwner && template.outdatedBotCount > 0 && (
+					<Button
+						size="sm"
+						variant="outline"
+						className="gap-1"
+						disabled={rollOut.isPending}
+						onClick={() => rollOut.mutate({ id: template.id })}
+					>
+						<RefreshCw className="h-4 w-4" />
+						Roll out v{template.currentVersion}
+					</Button>
+				)}
+			</div>
+		</div>
+	);
+}
+
+interface BotTemplateFormData {
+	name: string;
+	description: string;
+	botPrompt: string;
+	botModel: string;
+	activationMode: "always" | "mention" | "fallback" | "probabilistic";
+	probability: number;
+	botTools: string[];
+}
+
+function BotTemplateForm({
+	template,
+	onDone,
+}: {
+	template?: BotTemplateSummary;
+	onDone: () => void;
+}) {
+	const utils = api.useUtils();
+	const { data: tools } = api.botTemplate.tools.useQuery();
+
+	const activation = template?.current.activation;
+	const methods = useForm<BotTemplateFormData>({
+		defaultValues: {
+			name: template?.name ?? "",
+			description: template?.description ?? "",
+			botPrompt: template?.current.botPrompt ?? "",
+			botModel: template?.current.botModel ?? "",
+			activationMode: activation?.mode ?? "always",
+			probability:
+				activation?.mode === "probabilistic" ? activation.probability : 0.5,
+			botTools: template?.current.botTools ?? [],
+		},
+	});
+	const { control, register, watch } = methods;
+
+	const onSuccess = async () => {
+		await utils.botTemplate.list.invalidate();
+		toast.success(template ? "Template saved" : "Template created");
+		onDone();
+	};
+	const onError = (err: { message: string }) => {
+		toast.error(`Failed to save template: ${err.message}`);
+	};
+	const create = api.botTemplate.create.useMutation({ onSuccess, onError });
+	const update = api.botTemplate.update.useMutation({ onSuccess, onError });
+
+	const handleSubmit = (data: BotTemplateFormData) => {
+		const input = {
+			name: data.name,
+			description: data.description || null,
+			botPrompt: data.botPrompt,
+			botModel: data.botModel || null,
+			activation:
+				data.activationMode === "probabilistic"
+					? { mode: data.activationMode, probability: Number(data.probability) }
+					: { mode: data.activationMode },
+			botTools: data.botTools,
+		};
+		if (template) {
+			update.mutate({ id: template.id, ...input });
+		} else {
+			create.mutate(input);
+		}
+	};
+
+	const isSaving = create.isPending || update.isPending;
+
+	return (
+		<FormProvider {...methods}>
+			<form onSubmit={methods.handleSubmit(handleSubmit)} className="space-y-4">
+				<div>
+					<Label htmlFor="template-name">Name</Label>
+					<Input
+						id="template-name"
+						placeholder="Helpful librarian"
+						{...register("name", { required: true })}
+					/>
+				</div>
+
+				<div>
+					<Label htmlFor="template-description">Description</Label>
+					<Input
+						id="template-description"
+						placeholder="What this bot is for"
+						{...register("description")}
+					/>
+				</div>
+
+				<div>
+					<Label htmlFor="botModel">Default Model</Label>
+					<ModelSelectField
+						name="botModel"
+						placeholder="Select an AI model..."
+					/>
+				</div>
+
+				<div>
+					<Label htmlFor="template-prompt">System Prompt</Label>
+					<Textarea
+						id="template-prompt"
+						className="min-h-40 font-mono"
+						placeholder="You are a helpful assistant. Your role is to..."
+						{...register("botPrompt", { required: true })}
+					/>
+				</div>
+
+				<div className="flex gap-3">
+					<div className="flex-1">
+						<Label>Activation</Label>
+						<Controller
+							control={control}
+							name="activationMode"
+							render={({ field }) => (
+								<Select value={field.value} onValueChange={field.onChange}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="always">Every message</SelectItem>
+										<SelectItem value="mention">When @-mentioned</SelectItem>
+										<SelectItem value="fallback">
+											When no other bot replies
+										</SelectItem>
+										<SelectItem value="probabilistic">Sometimes</SelectItem>
+									</SelectContent>
+								</Select>
+							)}
+						/>
+					</div>
+					{watch("activationMode") === "probabilistic" && (
+						<div className="w-32">
+							<Label htmlFor="template-probability">Probability</Label>
+							<Input
+								id="template-probability"
+								type="number"
+								min={0}
+								max={1}
+								step={0.05}
+								{...register("probability", { valueAsNumber: true })}
+							/>
+						</div>
+					)}
+				</div>
+
+				{tools && tools.length > 0 && (
+					<div>
+						<Label>Tools</Label>
+						<div className="mt-2 space-y-2">
+							{tools.map((tool) => (
+								<label
+									key={tool.name}
+									className="flex items-start gap-2 text-sm"
+								>
+									<input
+										type="checkbox"
+										value={tool.name}
+										className="mt-1"
+										{...register("botTools")}
+									/>
+									<span>
+										<span className="font-mono">{tool.name}</span>
+										<span className="block text-muted-foreground">
+											{tool.description}
+										</span>
+									</span>
+								</label>
+							))}
+						</div>
+					</div>
+				)}
+
+				<div className="-mx-6 sticky bottom-0 border-t bg-background px-6 pt-4 pb-4">
+					<div className="flex gap-3">
+						<Button
+							type="button"
+							variant="outline"
+							className="flex-1"
+							onClick={onDone}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" className="flex-1" disabled={isSaving}>
+							{isSaving ? "Saving…" : "Save"}
+						</Button>
+					</div>
+				</div>
+			</form>
+		</FormProvider>
+	);
+}
@@ -1,13 +1,28 @@
 "use client";
 
+import {
+	type Completion,
+	type CompletionContext,
+	type CompletionResult,
+	autocompletion,
+} from "@codemirror/autocomplete";
 import { markdown } from "@codemirror/lang-markdown";
 import { Prec } from "@codemirror/state";
-import { EditorView, keymap } from "@codemirror/view";
+import {
+	Decoration,
+	type DecorationSet,
+	EditorView,
+	MatchDecorator,
+	ViewPlugin,
+	type ViewUpdate,
+	WidgetType,
+	keymap,
+} from "@codemirror/view";
 import { tags as t } from "@lezer/highlight";
 import { createTheme } from "@uiw/codemirror-themes";
 import CodeMirror from "@uiw/react-codemirror";
 import type { Room } from "livekit-client";
-import { Send } from "lucide-react";
+import { ImagePlus, Send, X } from "lucide-react";
 import { useSession } from "next-auth/react";
 import {
 	forwardRef,
@@ -19,21 +34,111 @@ import {
 	useRef,
 	useState,
 } from "react";
+import { toast } from "sonner";
 import { BeingEditModal } from "~/components/being-edit-modal";
 import { VideoAvatar } from "~/components/ui/video-avatar";
 import { useBeing } from "~/hooks/use-beings";
+import { useBeingsInLocation } from "~/hooks/use-beings-in-location";
 import { canEdit as canEditPermission, isSuperuser } from "~/lib/permissions";
-import type { BeingId } from "~/lib/types";
+import { type BeingId, MENTION_TOKEN_PATTERN, mentionToken } from "~/lib/types";
+import { api } from "~/trpc/react";
 import { EntityCard } from "../../packages/entity-kit/src/components/ui/EntityCard";
 import type { EntitySummary } from "../../packages/entity-kit/src/types";
 
+// Matches the server's limit once the file is base64-encoded
+const MAX_IMAGE_BYTES = 3 * 1024 * 1024;
+const MAX_ATTACHMENTS = 4;
+
+/**
+ * An image attached to a message, sent as a data URL
+ */
+export interface ImageAttachment {
+	src: string;
+	mime: string;
+	alt?: string;
+}
+
+// Suggestions shown at once when completing an @-mention
+const MAX_MENTION_SUGGESTIONS = 8;
+
+// Only people and bots can be mentioned
+const MENTIONABLE_TYPES = new Set(["guest", "bot"]);
+
+class MentionWidget extends WidgetType {
+	constructor(
+		readonly beingId: BeingId,
+		readonly name: string,
+	) {
+		super();
+	}
+
+	eq(other: MentionWidget) {
+		return other.beingId === this.beingId && other.name === this.name;
+	}
+
+	toDOM() {
+		const chip = document.createElement("span");
+		chip.className = "cm-mention";
+		chip.textContent = `@${this.name}`;
+		chip.title = this.beingId;
+		return chip;
+	}
+}
+
+/**
+ * Show the `<@being-id>` tokens mention completion inserts as `@name` chips,
+ * which the cursor and backspace treat as a single character
+ */
+function mentionChips(names: Map<BeingId, string>) {
+	const decorator = new MatchDecorator({
+		regexp: new RegExp(MENTION_TOKEN_PATTERN),
+		decoration: (match) => {
+			const beingId = match[1] as BeingId;
+			return Decoration.replace({
+				widget: new MentionWidget(beingId, names.get(beingId) ?? beingId),
+			});
+		},
+	});
+
+	return ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet;
+			constructor(view: EditorView) {
+				this.decorations = decorator.createDeco(view);
+			}
+			update(update: ViewUpdate) {
+				this.decorations = decorator.updateDeco(update, this.decorations);
+			}
+		},
+		{
+			decorations: (plugin) => plugin.decorations,
+			provide: (plugin) =>
+				EditorView.atomicRanges.of(
+					(view) => view.plugin(plugin)?.decorations ?? Decoration.none,
+				),
+		},
+	);
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(String(reader.result));
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(file);
+	});
+}
+
 interface ChatInputProps {
 	value: string;
 	onChange: (value: string) => void;
 	onSubmit: () => void;
+	attachments?: ImageAttachment[];
+	onAttachmentsChange?: (attachments: ImageAttachment[]) => void;
 	disabled?: boolean;
 	placeholder?: string;
 	currentUserBeingId?: BeingId;
+	locationId: BeingId; // The space whose beings are suggested first for @-mentions
 	room?: Room | null;
 }
 
@@ -47,9 +152,12 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 			value,
 			onChange,
 			onSubmit,
+			attachments = [],
+			onAttachmentsChange,
 			disabled = false,
 			placeholder = "Say something...",
 			currentUserBeingId,
+			locationId,
 			room,
 		},
 		ref,
@@ -61,6 +169,8 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 		);
 		const [editingBeingId, setEditingBeingId] = useState<BeingId | null>(null);
 		const popoverRef = useRef<HTMLDivElement>(null);
+		const fileInputRef = useRef<HTMLInputElement>(null);
+		const hasAttachments = attachments.length > 0;
 
 		// Get session data for permissions
 		const { data: session } = useSession();
@@ -68,6 +178,77 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 		// Fetch current user's being data
 		const { data: currentUserBeing } = useBeing(currentUserBeingId || "@");
 
+		// Beings to suggest for @-mentions, and the names of those mentioned so far
+		const utils = api.useUtils();
+		const spaceBeings = useBeingsInLocation(locationId);
+		const spaceBeingsRef = useRef(spaceBeings);
+		const mentionNamesRef = useRef(new Map<BeingId, string>());
+		useEffect(() => {
+			spaceBeingsRef.current = spaceBeings;
+			for (const being of spaceBeings) {
+				mentionNamesRef.current.set(being.id as BeingId, being.name);
+			}
+		}, [spaceBeings]);
+
+		// Complete the `@word` before the cursor: beings in this space first, then anyone else by name
+		const completeMention = useCallback(
+			async (context: CompletionContext): Promise<CompletionResult | null> => {
+				const word = context.matchBefore(/@[^\s@<>]*/);
+				if (!word) return null;
+				const before = context.state.sliceDoc(word.from - 1, word.from);
+				if (before && !/\s/.test(before)) return null; // e.g. an email address
+
+				const q = word.text.slice(1).toLowerCase();
+				const candidates: { id: BeingId; name: string; type: string }[] =
+					spaceBeingsRef.current
+						.filter(
+							(being) =>
+								MENTIONABLE_TYPES.has(being.type) &&
+								being.name.toLowerCase().includes(q),
+						)
+						.map((being) => ({
+							id: being.id as BeingId,
+							name: being.name,
+							type: being.type,
+						}));
+				if (q && candidates.length < MAX_MENTION_SUGGESTIONS) {
+					const { items } = await utils.being.search.fetch({
+						q,
+						limit: MAX_MENTION_SUGGESTIONS,
+					});
+					if (context.aborted) return null;
+					for (const being of items) {
+						if (
+							MENTIONABLE_TYPES.has(being.type) &&
+							!candidates.some((candidate) => candidate.id === being.id)
+						) {
+							candidates.push(being);
+						}
+					}
+				}
+
+				return {
+					from: word.from,
+					filter: false,
+					options: candidates.slice(0, MAX_MENTION_SUGGESTIONS).map(
+						(being): Completion => ({
+							label: `@${being.name}`,
+							detail: being.type,
+							apply: (view, _completion, from, to) => {
+								mentionNamesRef.current.set(being.id, being.name);
+								const insert = `${mentionToken(being.id)} `;
+								view.dispatch({
+									changes: { from, to, insert },
+									selection: { anchor: from + insert.length },
+								});
+							},
+						}),
+					),
+				};
+			},
+			[utils],
+		);
+
 		// Expose focus method via ref
 		useImperativeHandle(ref, () => ({
 			focus: () => {
@@ -85,7 +266,7 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 						key: "Enter",
 						run: (view) => {
 							const currentValue = view.state.doc.toString();
-							if (!disabled && currentValue.trim()) {
+							if (!disabled && (currentValue.trim() || hasAttachments)) {
 								// Immediately sync the current value before submit
 								if (currentValue !== value) {
 									onChange(currentValue);
@@ -105,7 +286,7 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 					},
 				]),
 			);
-		}, [disabled, onSubmit, onChange]); // Include onChange dependency
+		}, [disabled, onSubmit, onChange, hasAttachments]); // Include onChange dependency
 
 		// Create custom dark theme using createTheme - memoize to avoid recreation
 		const customDarkTheme = useMemo(
@@ -187,6 +368,21 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 						".cm-scroller": {
 							backgroundColor: "#1f2937 !important", // Force dark background
 						},
+						".cm-mention": {
+							borderRadius: "4px",
+							padding: "0 2px",
+							backgroundColor: "rgba(59, 130, 246, 0.3)", // blue-500
+							color: "#bfdbfe", // blue-200
+						},
+						".cm-tooltip.cm-tooltip-autocomplete": {
+							border: "1px solid #374151", // gray-700
+							borderRadius: "6px",
+							backgroundColor: "#111827", // gray-900
+						},
+						".cm-tooltip-autocomplete > ul > li[aria-selected]": {
+							backgroundColor: "#3b82f6", // blue-500
+							color: "#ffffff",
+						},
 					},
 					{ dark: true },
 				),
@@ -201,8 +397,10 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 				borderRadiusTheme,
 				chatKeymap,
 				EditorView.lineWrapping,
+				autocompletion({ override: [completeMention], icons: false }),
+				mentionChips(mentionNamesRef.current),
 			],
-			[customDarkTheme, borderRadiusTheme, chatKeymap],
+			[customDarkTheme, borderRadiusTheme, chatKeymap, completeMention],
 		);
 
 		// Add debounced onChange to reduce performance impact
@@ -229,6 +427,31 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 			setLocalValue(val);
 		}, []);
 
+		const handleFilesSelected = useCallback(
+			async (files: FileList | null) => {
+				if (!files || !onAttachmentsChange) return;
+				const added: ImageAttachment[] = [];
+				for (const file of Array.from(files)) {
+					if (!file.type.startsWith("image/")) continue;
+					if (file.size > MAX_IMAGE_BYTES) {
+						toast.error(`${file.name} is too large (max 3 MB)`);
+						continue;
+					}
+					added.push({
+						src: await readAsDataUrl(file),
+						mime: file.type,
+						alt: file.name,
+					});
+				}
+				const next = [...attachments, ...added];
+				if (next.length > MAX_ATTACHMENTS) {
+					toast.error(`Attach up to ${MAX_ATTACHMENTS} images per message`);
+				}
+				onAttachmentsChange(next.slice(0, MAX_ATTACHMENTS));
+			},
+			[attachments, onAttachmentsChange],
+		);
+
 		// Handle avatar click to show/hide popover
 		const handleTogglePopover = useCallback(() => {
 			setShowPopover(!showPopover);
@@ -290,6 +513,31 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 		return (
 			<div className="flex w-full min-w-0 items-end gap-2">
 				<div className="[&_.cm-editor]:!bg-gray-800 [&_.cm-content]:!bg-gray-800 [&_.cm-content]:!text-white [&_.cm-scroller]:!bg-gray-800 [&_.cm-line]:!text-white [&_.cm-placeholder]:!text-gray-400 min-w-0 flex-1">
+					{hasAttachments && (
+						<div className="mb-2 flex flex-wrap gap-2">
+							{attachments.map((attachment, index) => (
+								<div key={attachment.src} className="relative">
+									<img
+										src={attachment.src}
+										alt={attachment.alt ?? "Attachment"}
+										className="h-16 w-16 rounded-lg object-cover"
+									/>
+									<button
+										type="button"
+										className="-top-1 -right-1 absolute rounded-full bg-gray-900 p-0.5 text-white"
+										onClick={() =>
+											onAttachmentsChange?.(
+												attachments.filter((_, i) => i !== index),
+											)
+										}
+										aria-label={`Remove ${attachment.alt ?? "attachment"}`}
+									>
+										<X className="size-3" />
+									</button>
+								</div>
+							))}
+						</div>
+					)}
 					<CodeMirror
 						ref={editorRef}
 						value={localValue}
@@ -315,11 +563,35 @@ const ChatInputComponent = forwardRef<ChatInputRef, ChatInputProps>(
 						editable={!disabled}
 					/>
 				</div>
+				{onAttachmentsChange && (
+					<>
+						<input
+							ref={fileInputRef}
+							type="file"
+							accept="image/*"
+							multiple
+							className="hidden"
+							onChange={(e) => {
+								handleFilesSelected(e.target.files);
+								e.target.value = "";
+							}}
+						/>
+						<button
+							type="button"
+							onClick={() => fileInputRef.current?.click()}
+							className="shrink-0 rounded-full p-2 text-gray-400 transition hover:bg-gray-800 hover:text-white disabled:opacity-50"
+							disabled={disabled || attachments.length >= MAX_ATTACHMENTS}
+							aria-label="Attach image"
+						>
+							<ImagePlus className="size-4" />
+						</button>
+					</>
+				)}
 				<button
 					type="button"
 					onClick={onSubmit}
 					className="shrink-0 rounded-full bg-blue-500 p-2 text-white transition hover:bg-blue-600 disabled:opacity-50"
-					disabled={disabled || !localValue.trim()}
+					disabled={disabled || (!localValue.trim() && !hasAttachments)}
 					aria-label={disabled ? "Sending..." : "Send message"}
 				>
 					<Send className="size-4" />
@@ -57,7 +57,6 @@ export function InlineBeingName({
 				content: being.content ?? undefined,
 				botModel: being.botModel ?? undefined,
 				botPrompt: being.botPrompt ?? undefined,
-				llmApiKey: being.llmApiKey ?? undefined,
 			});
 
 			// Optimistic update will be handled by the sync system
@@ -4,6 +4,14 @@ import type { DrizzleDB } from "~/server/db";
 import { beings } from "~/server/db/schema";
 import { selectBeingSchema } from "~/server/db/types";
 import type { Being, BeingId, InsertBeing } from "~/server/db/types";
+import {
+	type LlmProviderConfig,
+	assertAllowedBaseUrl,
+	getLlmProviderConfig,
+	getRetryPolicy,
+} from "~/server/lib/llm";
+import { assertKnownModel } from "~/server/lib/models";
+import { findPromptVariableErrors } from "~/server/lib/prompt-variables";
 import type {
 	BeingType,
 	EntitySummary,
@@ -124,7 +132,127 @@ export class BeingService {
 	 * Create or update a being with proper authorization and side effects
 	 */
 	async upsertBeing(input: InsertBeing, auth: AuthContext): Promise<Being> {
+		await this.validateBotModel(input);
+		await this.validateBotBaseUrl(input);
+		await this.validateBotPrompt(input, auth);
 		const { updateBeing } = await import("~/lib/being-operations");
 		return await updateBeing(this.db, input, auth);
 	}
+
+	/**
+	 * Move a being into a space: itself, or one the caller may edit
+	 */
+	async moveBeing(
+		id: BeingId,
+		spaceId: BeingId,
+		auth: AuthContext,
+	): Promise<Being> {
+		const space = await this.getBeing(spaceId);
+		if (space.type !== "space") {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `${spaceId} is not a space`,
+			});
+		}
+		const { moveBeing } = await import("~/lib/being-operations");
+		return await moveBeing(this.db, id, spaceId, auth);
+	}
+
+	/**
+	 * Reject model ids the OpenRouter catalog doesn't know - botModel and the
+	 * retry policy's fallbackModels - for bots that talk to OpenRouter. Other
+	 * providers (self-hosted servers, the mock) name their models their own way.
+	 * Only new models are checked, so a model retired upstream doesn't block
+	 * unrelated edits.
+	 */
+	private async validateBotModel(input: InsertBeing): Promise<void> {
+		const models = [
+			...(input.botModel ? [input.botModel] : []),
+			...getRetryPolicy(input).fallbackModels,
+		];
+		if (models.length === 0 || !this.usesOpenRouter(input)) return;
+
+		const row = await this.db.query.beings.findFirst({
+			where: eq(beings.id, input.id),
+		});
+		const existing = row && selectBeingSchema.parse(row);
+		const checked =
+			existing && this.usesOpenRouter(existing)
+				? new Set([
+						existing.botModel,
+						...getRetryPolicy(existing).fallbackModels,
+					])
+				: new Set();
+
+		for (const model of new Set(models)) {
+			if (!checked.has(model)) await assertKnownModel(model);
+		}
+	}
+
+	/**
+	 * Reject an OpenAI-compatible base URL the server may not send requests
+	 * to, so the owner finds out when saving rather than from a failed reply
+	 */
+	private async validateBotBaseUrl(input: InsertBeing): Promise<void> {
+		const config = this.getProviderConfig(input);
+		if (config.type !== "openai-compatible") return;
+		try {
+			await assertAllowedBaseUrl(config.baseUrl);
+		} catch (error) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	private usesOpenRouter(
+		being: Pick<Being, "id"> & { properties?: Being["properties"] },
+	): boolean {
+		return this.getProviderConfig(being).type === "openrouter";
+	}
+
+	private getProviderConfig(
+		being: Pick<Being, "id"> & { properties?: Being["properties"] },
+	): LlmProviderConfig {
+		try {
+			return getLlmProviderConfig(being);
+		} catch (error) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	/**
+	 * Reject botPrompt placeholders that can't be resolved at activation time
+	 * (unknown names, missing documents, documents the caller can't read).
+	 * Only checked when the prompt changes.
+	 */
+	private async validateBotPrompt(
+		input: InsertBeing,
+		auth: AuthContext,
+	): Promise<void> {
+		if (!input.botPrompt?.includes("{{")) return;
+
+		const existing = await this.db.query.beings.findFirst({
+			where: eq(beings.id, input.id),
+			columns: { botPrompt: true, locationId: true },
+		});
+		if (existing?.botPrompt === input.botPrompt) return;
+
+		const errors = await findPromptVariableErrors(
+			this.db,
+			input.botPrompt,
+			auth,
+			(input.locationId ?? existing?.locationId ?? null) as BeingId | null,
+		);
+		if (errors.length > 0) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Invalid botPrompt: ${errors.join("; ")}`,
+			});
+		}
+	}
 }
@@ -0,0 +1,430 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { z } from "zod/v4";
+import { canEdit } from "~/lib/permissions";
+import type { DrizzleDB } from "~/server/db";
+import { beings, botTemplateVersions, botTemplates } from "~/server/db/schema";
+import { selectBeingSchema } from "~/server/db/types";
+import type {
+	Being,
+	BeingId,
+	BotTemplate,
+	BotTemplateVersion,
+} from "~/server/db/types";
+import type { ActivationPolicy } from "~/server/lib/bot-arbiter";
+import { assertKnownModel } from "~/server/lib/models";
+import { findPromptVariableErrors } from "~/server/lib/prompt-variables";
+import type { AuthContext } from "./auth-service";
+import { BeingService } from "./being-service";
+
+/**
+ * Which template (and version) a bot was created from, stored in `properties.template`
+ */
+export const botTemplateRefSchema = z.object({
+	id: z.string(),
+	version: z.number().int().positive(),
+});
+
+export type BotTemplateRef = z.infer<typeof botTemplateRefSchema>;
+
+/**
+ * The parts of a bot a template controls; everything else on the bot is its own
+ */
+export interface BotPersona {
+	botPrompt: string;
+	botModel?: string | null;
+	activation?: ActivationPolicy | null;
+	botTools?: string[];
+}
+
+export interface CreateBotTemplateInput extends BotPersona {
+	name: string;
+	description?: string | null;
+}
+
+export interface UpdateBotTemplateInput
+	extends Partial<CreateBotTemplateInput> {
+	id: string;
+}
+
+export interface InstantiateBotTemplateInput {
+	templateId: string;
+	spaceId: BeingId;
+	name?: string;
+}
+
+export interface BotTemplateSummary extends BotTemplate {
+	current: BotTemplateVersion;
+	botCount: number; // Bots created from this template
+	outdatedBotCount: number; // ...of which are behind the current version
+}
+
+export interface BotTemplateDetails extends BotTemplate {
+	versions: BotTemplateVersion[]; // Newest first
+}
+
+export function getBotTemplateRef(bot: Being): BotTemplateRef | null {
+	const result = botTemplateRefSchema.safeParse(bot.properties?.template);
+	return result.success ? result.data : null;
+}
+
+function samePersona(a: BotPersona, b: BotTemplateVersion): boolean {
+	return (
+		a.botPrompt === b.botPrompt &&
+		(a.botModel ?? null) === b.botModel &&
+		JSON.stringify(a.activation ?? null) === JSON.stringify(b.activation) &&
+		JSON.stringify(a.botTools ?? []) === JSON.stringify(b.botTools)
+	);
+}
+
+export class BotTemplateService {
+	constructor(private db: DrizzleDB) {}
+
+	/**
+	 * Every template with its current version and how many bots use it
+	 */
+	async listTemplates(): Promise<BotTemplateSummary[]> {
+		const rows = await this.db
+			.select({ template: botTemplates, current: botTemplateVersions })
+			.from(botTemplates)
+			.innerJoin(
+				botTemplateVersions,
+				and(
+					eq(botTemplateVersions.templateId, botTemplates.id),
+					eq(botTemplateVersions.version, botTemplates.currentVersion),
+				),
+			)
+			.orderBy(asc(botTemplates.name));
+
+		const instances = await this.db
+			.select({
+				templateId: sql<string>`${beings.properties}->'template'->>'id'`,
+				version: sql<number>`(${beings.properties}->'template'->>'version')::int`,
+			})
+			.from(beings)
+			.where(
+				and(
+					eq(beings.type, "bot"),
+					sql`${beings.properties}->'template'->>'id' IS NOT NULL`,
+				),
+			);
+
+		return rows.map(({ template, current }) => {
+			const bots = instances.filter((bot) => bot.templateId === template.id);
+			return {
+				...template,
+				current,
+				botCount: bots.length,
+				outdatedBotCount: bots.filter(
+					(bot) => bot.version < template.currentVersion,
+				).length,
+			};
+		});
+	}
+
+	/**
+	 * A template with its full version history
+	 */
+	async getTemplate(id: string): Promise<BotTemplateDetails> {
+		const template = await this.db.query.botTemplates.findFirst({
+			where: eq(botTemplates.id, id),
+		});
+
+		if (!template) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: `Bot template "${id}" not found.`,
+			});
+		}
+
+		const versions = await this.db
+			.select()
+			.from(botTemplateVersions)
+			.where(eq(botTemplateVersions.templateId, id))
+			.orderBy(desc(botTemplateVersions.version));
+
+		return { ...template, versions };
+	}
+
+	async createTemplate(
+		input: CreateBotTemplateInput,
+		auth: AuthContext,
+	): Promise<BotTemplateDetails> {
+		await this.validatePersona(input, auth);
+
+		const id = await this.db.transaction(async (tx) => {
+			const [template] = await tx
+				.insert(botTemplates)
+				.values({
+					name: input.name,
+					description: input.description ?? null,
+					ownerId: auth.sessionBeingId,
+					currentVersion: 1,
+				})
+				.returning({ id: botTemplates.id });
+
+			if (!template) {
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create bot template",
+				});
+			}
+
+			await tx.insert(botTemplateVersions).values({
+				templateId: template.id,
+				version: 1,
+				...this.personaColumns(input),
+			});
+
+			return template.id;
+		});
+
+		return this.getTemplate(id);
+	}
+
+	/**
+	 * Rename or describe a template in place; a changed persona becomes a new version.
+	 * Existing bots keep their version until the change is rolled out.
+	 */
+	async updateTemplate(
+		input: UpdateBotTemplateInput,
+		auth: AuthContext,
+	): Promise<BotTemplateDetails> {
+		const template = await this.getEditableTemplate(input.id, auth);
+		const current = template.versions[0];
+		if (!current) {
+			throw new TRPCError({
+				code: "INTERNAL_SERVER_ERROR",
+				message: `Bot template "${input.id}" has no versions.`,
+			});
+		}
+
+		const persona: BotPersona = {
+			botPrompt: input.botPrompt ?? current.botPrompt,
+			botModel:
+				input.botModel !== undefined ? input.botModel : current.botModel,
+			activation:
+				input.activation !== undefined ? input.activation : current.activation,
+			botTools: input.botTools ?? current.botTools,
+		};
+		const newVersion = !samePersona(persona, current);
+		if (newVersion) {
+			await this.validatePersona(persona, auth, current.botModel);
+		}
+
+		await this.db.transaction(async (tx) => {
+			if (newVersion) {
+				await tx.insert(botTemplateVersions).values({
+					templateId: template.id,
+					version: template.currentVersion + 1,
+					...this.personaColumns(persona),
+				});
+			}
+
+			await tx
+				.update(botTemplates)
+				.set({
+					name: input.name ?? template.name,
+					description:
+						input.description !== undefined
+							? input.description
+							: template.description,
+					currentVersion: newVersion
+						? template.currentVersion + 1
+						: template.currentVersion,
+					modifiedAt: new Date(),
+				})
+				.where(eq(botTemplates.id, template.id));
+		});
+
+		return this.getTemplate(template.id);
+	}
+
+	/**
+	 * Create a bot in a space from the template's current version, owned by the caller
+	 */
+	async instantiate(
+		input: InstantiateBotTemplateInput,
+		auth: AuthContext,
+	): Promise<Being> {
+		const template = await this.getTemplate(input.templateId);
+		const current = template.versions[0];
+		if (!current) {
+			throw new TRPCError({
+				code: "INTERNAL_SERVER_ERROR",
+				message: `Bot template "${input.templateId}" has no versions.`,
+			});
+		}
+
+		const beingService = new BeingService(this.db);
+		const space = await beingService.getBeing(input.spaceId);
+		if (space.type !== "space") {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `${input.spaceId} is not a space.`,
+			});
+		}
+
+		const name = input.name?.trim() || template.name;
+		const slug =
+			name
+				.toLowerCase()
+				.replace(/[^a-z0-9]+/g, "-")
+				.replace(/^-+|-+$/g, "") || "bot";
+
+		return beingService.upsertBeing(
+			{
+				id: `@${slug}-${crypto.randomUUID().slice(0, 6)}`,
+				name,
+				type: "bot",
+				ownerId: auth.sessionBeingId,
+				locationId: input.spaceId,
+				botPrompt: current.botPrompt,
+				botModel: current.botModel ?? undefined,
+				properties: {
+					...this.personaProperties(current),
+					template: { id: template.id, version: current.version },
+				},
+			},
+			auth,
+		);
+	}
+
+	/**
+	 * Bring every bot created from the template up to its current version.
+	 * Only bots the caller may edit are touched; the rest are reported as skipped.
+	 */
+	async rollOut(
+		templateId: string,
+		auth: AuthContext,
+	): Promise<{ updated: BeingId[]; skipped: BeingId[] }> {
+		const template = await this.getEditableTemplate(templateId, auth);
+		const current = template.versions[0];
+		if (!current) return { updated: [], skipped: [] };
+
+		const bots = await this.db.query.beings.findMany({
+			where: and(
+				eq(beings.type, "bot"),
+				sql`${beings.properties}->'template'->>'id' = ${templateId}`,
+			),
+		});
+
+		const beingService = new BeingService(this.db);
+		const updated: BeingId[] = [];
+		const skipped: BeingId[] = [];
+
+		for (const raw of bots) {
+			const bot = selectBeingSchema.parse(raw);
+			const ref = getBotTemplateRef(bot);
+			if (!ref || ref.version >= current.version) continue;
+
+			if (
+				!canEdit(auth.sessionBeingId, bot.ownerId, auth.isCurrentUserSuperuser)
+			) {
+				skipped.push(bot.id);
+				continue;
+			}
+
+			await beingService.upsertBeing(
+				{
+					...bot,
+					ownerId: bot.ownerId ?? undefined,
+					locationId: bot.locationId ?? undefined,
+					extIds: bot.extIds ?? undefined,
+					idHistory: bot.idHistory ?? undefined,
+					metadata: bot.metadata ?? undefined,
+					content: bot.content ?? undefined,
+					botPrompt: current.botPrompt,
+					botModel: current.botModel ?? undefined,
+					properties: {
+						...bot.properties,
+						...this.personaProperties(current),
+						template: { id: template.id, version: current.version },
+					},
+				},
+				auth,
+			);
+			updated.push(bot.id);
+		}
+
+		return { updated, skipped };
+	}
+
+	private async getEditableTemplate(
+		id: string,
+		auth: AuthContext,
+	): Promise<BotTemplateDetails> {
+		const template = await this.getTemplate(id);
+		if (
+			!canEdit(
+				auth.sessionBeingId,
+				template.ownerId,
+				auth.isCurrentUserSuperuser,
+			)
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `Only the owner of bot template "${id}" can change it.`,
+			});
+		}
+		return template;
+	}
+
+	/**
+	 * Check the model (unless it's unchanged from `previousModel`), prompt
+	 * placeholders and tool names. Templates have no space, so the prompt may
+	 * only use documents the caller can edit.
+	 */
+	private async validatePersona(
+		persona: BotPersona,
+		auth: AuthContext,
+		previousModel?: string | null,
+	): Promise<void> {
+		if (persona.botModel && persona.botModel !== previousModel) {
+			await assertKnownModel(persona.botModel);
+		}
+
+		const promptErrors = await findPromptVariableErrors(
+			this.db,
+			persona.botPrompt,
+			auth,
+			null,
+		);
+		if (promptErrors.length > 0) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Invalid botPrompt: ${promptErrors.join("; ")}`,
+			});
+		}
+
+		const { toolRegistry } = await import("~/server/lib/bot-tools");
+		const unknown = (persona.botTools ?? []).filter(
+			(name) => !toolRegistry.get(name),
+		);
+		if (unknown.length > 0) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Unknown bot tools: ${unknown.join(", ")}`,
+			});
+		}
+	}
+
+	private personaColumns(persona: BotPersona) {
+		return {
+			botPrompt: persona.botPrompt,
+			botModel: persona.botModel || null,
+			activation: persona.activation ?? null,
+			botTools: persona.botTools ?? [],
+		};
+	}
+
+	/**
+	 * Bot properties set from a template version; a missing activation means the default
+	 */
+	private personaProperties(version: BotTemplateVersion) {
+		return {
+			activation: version.activation ?? undefined,
+			botTools: version.botTools,
+		};
+	}
+}
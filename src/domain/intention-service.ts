@@ -1,33 +1,138 @@
 import { TRPCError } from "@trpc/server";
-import { eq } from "drizzle-orm";
+import { and, count, desc, eq, inArray, isNull, ne, sql } from "drizzle-orm";
+import { canControlBotResponse, canEdit } from "~/lib/permissions";
+import { type ReactionSummary, isMentionIsland } from "~/lib/types";
 import type { DrizzleDB } from "~/server/db";
-import { intentions } from "~/server/db/schema";
+import type { ContentNode, ImageIslandProps } from "~/server/db/content-types";
+import { beings, intentionRevisions, intentions } from "~/server/db/schema";
 import type {
 	BeingId,
 	InsertIntention,
 	Intention,
 	IntentionId,
+	IntentionRevision,
 } from "~/server/db/types";
 import { selectIntentionSchema } from "~/server/db/types";
+import { redactThinking } from "~/server/lib/bot-thinking";
 import type { AuthContext } from "./auth-service";
+import { MentionService } from "./mention-service";
+import { ReactionService } from "./reaction-service";
 
 export interface CreateUtteranceInput {
-	content: string;
+	content: string; // `<@being-id>` tokens become mention islands
 	beingId: BeingId;
+	attachments?: ImageIslandProps[]; // Sent to vision models as image parts
+	parentId?: IntentionId; // Reply in this message's thread
+	activateBots?: boolean; // Defaults to true; bots posting on their own pass false
+}
+
+export interface ListIntentionsInput {
+	locationId: BeingId;
+	limit?: number;
+	cursor?: IntentionId; // The last intention of the previous page
+	parentId?: IntentionId; // A thread's replies; the main stream when omitted
+}
+
+export interface ListIntentionsResult {
+	items: Intention[]; // Newest first
+	nextCursor: IntentionId | null; // Null once the oldest intention is reached
+	replyCounts: Record<IntentionId, number>; // Thread sizes for items that have replies
+	reactions: Record<IntentionId, ReactionSummary[]>; // For items that have reactions
 }
 
 export class IntentionService {
 	constructor(private db: DrizzleDB) {}
 
 	/**
-	 * Get all utterances/intentions in a specific being (location)
+	 * One page of the intentions in a location, newest first. The cursor is
+	 * the ID of the last intention of the previous page; pages are keyed on
+	 * (createdAt, id) so intentions created meanwhile don't shift them.
+	 * Replies are left out of the main stream and counted on their thread's
+	 * first message instead. Bot reasoning the viewer may not see (null for signed out) is removed.
 	 */
-	async getIntentionsInLocation(beingId: BeingId): Promise<Intention[]> {
-		const results = await this.db.query.intentions.findMany({
-			where: eq(intentions.locationId, beingId),
-			orderBy: (intentions, { asc }) => [asc(intentions.createdAt)],
-		});
-		return results.map((intention) => selectIntentionSchema.parse(intention));
+	async listIntentions(
+		input: ListIntentionsInput,
+		viewer: AuthContext | null,
+	): Promise<ListIntentionsResult> {
+		const limit = input.limit ?? 50;
+		const results = await this.db
+			.select()
+			.from(intentions)
+			.where(
+				and(
+					eq(intentions.locationId, input.locationId),
+					input.parentId
+						? eq(intentions.parentId, input.parentId)
+						: isNull(intentions.parentId),
+					input.cursor
+						? sql`(${intentions.createdAt}, ${intentions.id}) < (select "createdAt", "id" from ${intentions} where "id" = ${input.cursor})`
+						: undefined,
+				),
+			)
+			.orderBy(desc(intentions.createdAt), desc(intentions.id))
+			.limit(limit + 1);
+
+		const items = results
+			.slice(0, limit)
+			.map((intention) =>
+				redactThinking(selectIntentionSchema.parse(intention), viewer),
+			);
+		const last = items[items.length - 1];
+
+		const replyCounts: Record<IntentionId, number> = {};
+		if (!input.parentId && items.length > 0) {
+			const counts = await this.db
+				.select({ parentId: intentions.parentId, count: count() })
+				.from(intentions)
+				.where(
+					inArray(
+						intentions.parentId,
+						items.map((intention) => intention.id),
+					),
+				)
+				.groupBy(intentions.parentId);
+			for (const row of counts) {
+				if (row.parentId) replyCounts[row.parentId] = row.count;
+			}
+		}
+
+		return {
+			items,
+			nextCursor: results.length > limit && last ? last.id : null,
+			replyCounts,
+			reactions: await new ReactionService(this.db).getReactions(
+				items.map((intention) => intention.id),
+			),
+		};
+	}
+
+	/**
+	 * The first message of the thread a reply goes in. Replies to replies
+	 * join the same thread, so threads stay one level deep.
+	 */
+	private async getThreadRoot(
+		parentId: IntentionId,
+		locationId: BeingId,
+	): Promise<IntentionId> {
+		const parent = await this.getIntention(parentId);
+		if (!parent || parent.locationId !== locationId) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Cannot reply to ${parentId}: it is not a message in ${locationId}`,
+			});
+		}
+		return parent.parentId ?? parent.id;
+	}
+
+	/**
+	 * Get a single intention as the viewer sees it, for patching client caches
+	 */
+	async getVisibleIntention(
+		id: IntentionId,
+		viewer: AuthContext | null,
+	): Promise<Intention | null> {
+		const intention = await this.getIntention(id);
+		return intention ? redactThinking(intention, viewer) : null;
 	}
 
 	/**
@@ -36,12 +141,16 @@ export class IntentionService {
 	async createUtterance(
 		input: CreateUtteranceInput,
 		auth: AuthContext,
-	): Promise<{ success: boolean }> {
+	): Promise<{ success: boolean; id: IntentionId }> {
 		const userIntentionId: IntentionId = `/${crypto.randomUUID()}`;
+		const parentId = input.parentId
+			? await this.getThreadRoot(input.parentId, input.beingId)
+			: null;
 
 		const { createIntention } = await import("~/lib/being-operations");
+		const mentionService = new MentionService(this.db);
 
-		await createIntention(
+		const intention = await createIntention(
 			this.db,
 			{
 				id: userIntentionId,
@@ -50,20 +159,313 @@ export class IntentionService {
 				state: "complete",
 				ownerId: auth.sessionBeingId,
 				locationId: input.beingId,
-				content: [input.content],
+				parentId,
+				content: [
+					...(await mentionService.resolveMentions(input.content)),
+					...(input.attachments ?? []).map(
+						(props): ContentNode => ({ type: "image", props: { ...props } }),
+					),
+				],
 			},
 			auth,
 		);
+		await mentionService.indexMentions(intention);
 
 		// Activate all bots in the space (fire and forget) - only for user utterances
-		const { activateBots } = await import("~/server/lib/bots");
-		activateBots(input.beingId as BeingId, userIntentionId).catch(() => {
-			// Silently handle bot activation errors - they shouldn't block the main operation
+		if (input.activateBots !== false) {
+			const { activateBots } = await import("~/server/lib/bots");
+			activateBots(input.beingId as BeingId, userIntentionId).catch(() => {
+				// Silently handle bot activation errors - they shouldn't block the main operation
+			});
+		}
+
+		return { success: true, id: userIntentionId };
+	}
+
+	/**
+	 * Replace the text of an utterance, keeping its attachments. The previous
+	 * content is kept as a revision. Mentions are taken from the new text.
+	 */
+	async editUtterance(
+		id: IntentionId,
+		text: string,
+		auth: AuthContext,
+	): Promise<Intention> {
+		const intention = await this.getEditableIntention(id, auth);
+
+		if (intention.type !== "utterance" || intention.state !== "complete") {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" is not a finished utterance (type: ${intention.type}, state: ${intention.state}).`,
+			});
+		}
+
+		const mentionService = new MentionService(this.db);
+		const islands = intention.content.filter(
+			(node) => typeof node !== "string" && !isMentionIsland(node),
+		);
+		const content: ContentNode[] = [
+			...(await mentionService.resolveMentions(text)),
+			...islands,
+		];
+		if (content.length === 0) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: "A message needs text or an attachment; delete it instead",
+			});
+		}
+
+		await this.db.insert(intentionRevisions).values({
+			intentionId: id,
+			content: intention.content,
+			action: "edit",
+			actorId: auth.sessionBeingId,
+		});
+
+		const edited = await this.updateIntention(
+			id,
+			{ content, editedAt: new Date() },
+			auth.sessionBeingId,
+		);
+		await mentionService.indexMentions(edited);
+		return edited;
+	}
+
+	/**
+	 * Soft-delete an intention: its content is cleared (kept as a revision)
+	 * and the row stays, so clients show a "message removed" placeholder
+	 */
+	async deleteIntention(
+		id: IntentionId,
+		auth: AuthContext,
+	): Promise<Intention> {
+		const intention = await this.getEditableIntention(id, auth);
+
+		if (intention.state === "active") {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" is still in progress; cancel it first.`,
+			});
+		}
+
+		await this.db.insert(intentionRevisions).values({
+			intentionId: id,
+			content: intention.content,
+			action: "delete",
+			actorId: auth.sessionBeingId,
+		});
+
+		const deleted = await this.updateIntention(
+			id,
+			{ content: [], deletedAt: new Date() },
+			auth.sessionBeingId,
+		);
+		await new MentionService(this.db).indexMentions(deleted);
+		return deleted;
+	}
+
+	/**
+	 * Earlier versions of an intention, newest first. Only those who could
+	 * edit it may see them, since they include deleted content.
+	 */
+	async getRevisions(
+		id: IntentionId,
+		auth: AuthContext,
+	): Promise<IntentionRevision[]> {
+		const intention = await this.getIntention(id);
+		if (
+			!intention ||
+			!canEdit(
+				auth.sessionBeingId,
+				intention.ownerId,
+				auth.isCurrentUserSuperuser,
+			)
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `You can only see the history of messages you own [intention ${id}, you=${auth.sessionBeingId}].`,
+			});
+		}
+
+		return this.db
+			.select()
+			.from(intentionRevisions)
+			.where(eq(intentionRevisions.intentionId, id))
+			.orderBy(desc(intentionRevisions.createdAt));
+	}
+
+	/**
+	 * Stop an in-flight bot response
+	 */
+	async cancelIntention(
+		id: IntentionId,
+		auth: AuthContext,
+	): Promise<{ success: boolean }> {
+		const intention = await this.getControllableBotIntention(id, auth);
+
+		if (intention.state !== "active") {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" is not in progress (state: ${intention.state}).`,
+			});
+		}
+
+		const { cancelBotResponse } = await import("~/server/lib/bots");
+		if (!cancelBotResponse(id)) {
+			// Not streaming on this instance (e.g. after a restart) - just mark it cancelled
+			await this.updateIntention(
+				id,
+				{ state: "cancelled" },
+				intention.ownerId as BeingId,
+			);
+		}
+
+		return { success: true };
+	}
+
+	/**
+	 * Re-run a bot response against its original trigger, keeping earlier attempts as alternates
+	 */
+	async regenerateIntention(
+		id: IntentionId,
+		auth: AuthContext,
+	): Promise<{ success: boolean }> {
+		const intention = await this.getControllableBotIntention(id, auth);
+
+		if (intention.deletedAt) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" has been deleted.`,
+			});
+		}
+
+		const triggeringIntentionId = intention.metadata?.triggeringIntentionId;
+		if (typeof triggeringIntentionId !== "string") {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" has no triggering intention to regenerate from.`,
+			});
+		}
+
+		// Claim it in one statement, so a double click starts one regeneration
+		const [claimed] = await this.db
+			.update(intentions)
+			.set({ state: "active", modifiedAt: new Date() })
+			.where(
+				and(
+					eq(intentions.id, id),
+					ne(intentions.state, "active"),
+					isNull(intentions.deletedAt),
+				),
+			)
+			.returning({ id: intentions.id });
+		if (!claimed) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" is still in progress; cancel it first.`,
+			});
+		}
+
+		// Fire and forget - progress arrives through the usual intention updates
+		const { regenerateBotResponse } = await import("~/server/lib/bots");
+		regenerateBotResponse(
+			intention,
+			triggeringIntentionId as IntentionId,
+		).catch(() => {
+			// Failures are recorded on the intention itself
 		});
 
 		return { success: true };
 	}
 
+	/**
+	 * Load an intention the caller may edit or delete: its owner, or a
+	 * superuser moderating. Deleted intentions can't be changed again.
+	 */
+	private async getEditableIntention(
+		id: IntentionId,
+		auth: AuthContext,
+	): Promise<Intention> {
+		const intention = await this.getIntention(id);
+		if (!intention) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: `Intention with ID "${id}" not found.`,
+			});
+		}
+
+		if (
+			!canEdit(
+				auth.sessionBeingId,
+				intention.ownerId,
+				auth.isCurrentUserSuperuser,
+			)
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `You can only change your own messages [intention ${id}, you=${auth.sessionBeingId}].`,
+			});
+		}
+
+		if (intention.deletedAt) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" has been deleted.`,
+			});
+		}
+
+		return intention;
+	}
+
+	/**
+	 * Load a bot-authored intention the caller may stop or retry: superusers,
+	 * the bot's owner, and whoever sent the message the bot is answering.
+	 */
+	private async getControllableBotIntention(
+		id: IntentionId,
+		auth: AuthContext,
+	): Promise<Intention> {
+		const intention = await this.getIntention(id);
+		if (!intention) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: `Intention with ID "${id}" not found.`,
+			});
+		}
+
+		const bot = await this.db.query.beings.findFirst({
+			where: eq(beings.id, intention.ownerId as BeingId),
+		});
+		if (bot?.type !== "bot") {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Intention "${id}" is not a bot response.`,
+			});
+		}
+
+		const triggeringIntentionId = intention.metadata?.triggeringIntentionId;
+		const trigger =
+			typeof triggeringIntentionId === "string"
+				? await this.getIntention(triggeringIntentionId as IntentionId)
+				: null;
+
+		if (
+			!canControlBotResponse(
+				auth.sessionBeingId,
+				bot.ownerId,
+				trigger?.ownerId,
+				auth.isCurrentUserSuperuser,
+			)
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `You can only control responses from bots you own or to messages you sent [intention ${id}, you=${auth.sessionBeingId}].`,
+			});
+		}
+
+		return intention;
+	}
+
 	/**
 	 * Get a specific intention by ID
 	 */
@@ -0,0 +1,239 @@
+import { createHash } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+import {
+	and,
+	asc,
+	cosineDistance,
+	eq,
+	inArray,
+	isNull,
+	notInArray,
+	or,
+} from "drizzle-orm";
+import { isInSpace } from "~/lib/permissions";
+import type { DrizzleDB } from "~/server/db";
+import { embeddings } from "~/server/db/schema";
+import type { BeingId, Embedding } from "~/server/db/types";
+import { getEmbedder } from "~/server/lib/embeddings";
+import type { AuthContext } from "./auth-service";
+
+// Characters per embedded chunk, and a cap so one huge document can't flood the index
+const CHUNK_CHARS = 1200;
+const MAX_CHUNKS_PER_SOURCE = 50;
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+export type MemorySourceType = Embedding["sourceType"];
+
+/**
+ * Something to remember: an utterance or a document being, as plain text
+ */
+export interface MemorySource {
+	sourceType: MemorySourceType;
+	sourceId: string;
+	spaceId: BeingId | null;
+	ownerId: BeingId | null;
+	sourceCreatedAt: Date;
+	text: string;
+}
+
+export interface MemoryHit {
+	sourceType: MemorySourceType;
+	sourceId: string;
+	spaceId: BeingId | null;
+	ownerId: BeingId | null;
+	sourceCreatedAt: Date;
+	text: string;
+	score: number; // Cosine similarity, 1 = identical direction
+}
+
+export interface SemanticSearchInput {
+	query: string;
+	spaceId?: BeingId; // Only search this space
+	sourceTypes?: MemorySourceType[];
+	limit?: number;
+	excludeSourceIds?: string[];
+}
+
+/**
+ * Split text into chunks of roughly CHUNK_CHARS, preferring paragraph and word breaks
+ */
+function splitIntoChunks(text: string): string[] {
+	const chunks: string[] = [];
+	let rest = text.trim();
+
+	while (rest.length > 0 && chunks.length < MAX_CHUNKS_PER_SOURCE) {
+		if (rest.length <= CHUNK_CHARS) {
+			chunks.push(rest);
+			break;
+		}
+		const window = rest.slice(0, CHUNK_CHARS);
+		const paragraphBreak = window.lastIndexOf("\n\n");
+		const wordBreak = window.lastIndexOf(" ");
+		const cut =
+			paragraphBreak > CHUNK_CHARS / 2
+				? paragraphBreak
+				: wordBreak > CHUNK_CHARS / 2
+					? wordBreak
+					: CHUNK_CHARS;
+		chunks.push(rest.slice(0, cut).trim());
+		rest = rest.slice(cut).trim();
+	}
+
+	return chunks;
+}
+
+export class MemoryService {
+	constructor(private db: DrizzleDB) {}
+
+	/**
+	 * Embed a source and replace its stored chunks. Skipped when the text and
+	 * embedder are unchanged since the last index.
+	 */
+	async indexSource(source: MemorySource): Promise<void> {
+		const embedder = getEmbedder();
+		const contentHash = createHash("sha256").update(source.text).digest("hex");
+
+		const [stored] = await this.db
+			.select({
+				contentHash: embeddings.contentHash,
+				embedder: embeddings.embedder,
+				spaceId: embeddings.spaceId,
+			})
+			.from(embeddings)
+			.where(
+				and(
+					eq(embeddings.sourceType, source.sourceType),
+					eq(embeddings.sourceId, source.sourceId),
+				),
+			)
+			.limit(1);
+
+		if (
+			stored?.contentHash === contentHash &&
+			stored.embedder === embedder.name
+		) {
+			// Same text; just follow the source if it moved
+			if (stored.spaceId !== source.spaceId) {
+				await this.db
+					.update(embeddings)
+					.set({ spaceId: source.spaceId, ownerId: source.ownerId })
+					.where(
+						and(
+							eq(embeddings.sourceType, source.sourceType),
+							eq(embeddings.sourceId, source.sourceId),
+						),
+					);
+			}
+			return;
+		}
+
+		const chunks = splitIntoChunks(source.text);
+		const vectors = await embedder.embed(chunks);
+
+		await this.db.transaction(async (tx) => {
+			await tx
+				.delete(embeddings)
+				.where(
+					and(
+						eq(embeddings.sourceType, source.sourceType),
+						eq(embeddings.sourceId, source.sourceId),
+					),
+				);
+			if (chunks.length === 0) return;
+			await tx.insert(embeddings).values(
+				chunks.map((text, chunkIndex) => ({
+					sourceType: source.sourceType,
+					sourceId: source.sourceId,
+					chunkIndex,
+					spaceId: source.spaceId,
+					ownerId: source.ownerId,
+					embedder: embedder.name,
+					contentHash,
+					text,
+					embedding: vectors[chunkIndex] ?? [],
+					sourceCreatedAt: source.sourceCreatedAt,
+				})),
+			);
+		});
+	}
+
+	async removeSource(
+		sourceType: MemorySourceType,
+		sourceId: string,
+	): Promise<void> {
+		await this.db
+			.delete(embeddings)
+			.where(
+				and(
+					eq(embeddings.sourceType, sourceType),
+					eq(embeddings.sourceId, sourceId),
+				),
+			);
+	}
+
+	/**
+	 * Nearest stored chunks to the query, limited to what the caller can see:
+	 * chunks in the space they are in, plus unplaced documents they own.
+	 * Superusers search everywhere.
+	 */
+	async semanticSearch(
+		input: SemanticSearchInput,
+		auth: AuthContext,
+	): Promise<MemoryHit[]> {
+		if (input.spaceId && !isInSpace(auth.currentUser, input.spaceId)) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `You can only search the space you are in, not ${input.spaceId}`,
+			});
+		}
+		const currentSpaceId = auth.currentUser?.locationId;
+
+		const embedder = getEmbedder();
+		const [queryVector] = await embedder.embed([input.query]);
+		if (!queryVector) return [];
+
+		const distance = cosineDistance(embeddings.embedding, queryVector);
+		const visibility = auth.isCurrentUserSuperuser
+			? undefined
+			: or(
+					currentSpaceId ? eq(embeddings.spaceId, currentSpaceId) : undefined,
+					and(
+						isNull(embeddings.spaceId),
+						eq(embeddings.ownerId, auth.sessionBeingId),
+					),
+				);
+
+		const rows = await this.db
+			.select({
+				sourceType: embeddings.sourceType,
+				sourceId: embeddings.sourceId,
+				spaceId: embeddings.spaceId,
+				ownerId: embeddings.ownerId,
+				sourceCreatedAt: embeddings.sourceCreatedAt,
+				text: embeddings.text,
+				distance,
+			})
+			.from(embeddings)
+			.where(
+				and(
+					eq(embeddings.embedder, embedder.name),
+					visibility,
+					input.spaceId ? eq(embeddings.spaceId, input.spaceId) : undefined,
+					input.sourceTypes?.length
+						? inArray(embeddings.sourceType, input.sourceTypes)
+						: undefined,
+					input.excludeSourceIds?.length
+						? notInArray(embeddings.sourceId, input.excludeSourceIds)
+						: undefined,
+				),
+			)
+			.orderBy(asc(distance))
+			.limit(input.limit ?? DEFAULT_SEARCH_LIMIT);
+
+		return rows.map(({ distance, ...row }) => ({
+			...row,
+			score: 1 - Number(distance),
+		}));
+	}
+}
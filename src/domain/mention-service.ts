@@ -0,0 +1,107 @@
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import {
+	findMentionTokens,
+	isMentionIsland,
+	parseMentionTokens,
+} from "~/lib/types";
+import type { DrizzleDB } from "~/server/db";
+import type { ContentNode } from "~/server/db/content-types";
+import { beings, intentions, mentions } from "~/server/db/schema";
+import type { BeingId, Intention, IntentionId } from "~/server/db/types";
+import { selectIntentionSchema } from "~/server/db/types";
+import { redactThinking } from "~/server/lib/bot-thinking";
+import type { AuthContext } from "./auth-service";
+
+export interface ListMentionsInput {
+	limit?: number;
+	cursor?: IntentionId; // The last intention of the previous page
+}
+
+export interface ListMentionsResult {
+	items: Intention[]; // Newest first
+	nextCursor: IntentionId | null; // Null once the oldest mention is reached
+}
+
+export class MentionService {
+	constructor(private db: DrizzleDB) {}
+
+	/**
+	 * Turn the `<@being-id>` tokens the chat input writes into mention
+	 * islands, named as the beings are now. Tokens for unknown beings stay text.
+	 */
+	async resolveMentions(text: string): Promise<ContentNode[]> {
+		const ids = findMentionTokens(text);
+		if (ids.length === 0) return text ? [text] : [];
+
+		const found = await this.db
+			.select({ id: beings.id, name: beings.name })
+			.from(beings)
+			.where(inArray(beings.id, ids));
+		return parseMentionTokens(
+			text,
+			new Map(found.map((being) => [being.id, being.name])),
+		);
+	}
+
+	/**
+	 * Rebuild an intention's rows in the mention index from its content.
+	 * Deleted messages end up with none.
+	 */
+	async indexMentions(intention: Intention): Promise<void> {
+		const mentioned = [
+			...new Set(
+				(intention.deletedAt ? [] : intention.content)
+					.filter(isMentionIsland)
+					.map((node) => node.props.beingId),
+			),
+		];
+
+		await this.db.transaction(async (tx) => {
+			await tx.delete(mentions).where(eq(mentions.intentionId, intention.id));
+			if (mentioned.length === 0) return;
+			await tx.insert(mentions).values(
+				mentioned.map((beingId) => ({
+					intentionId: intention.id,
+					beingId,
+					locationId: intention.locationId as BeingId,
+					createdAt: intention.createdAt,
+				})),
+			);
+		});
+	}
+
+	/**
+	 * Messages that mention the caller, newest first, across every space.
+	 * Pages are keyed on (createdAt, intentionId) like the intention history.
+	 */
+	async listMentions(
+		input: ListMentionsInput,
+		auth: AuthContext,
+	): Promise<ListMentionsResult> {
+		const limit = input.limit ?? 50;
+		const rows = await this.db
+			.select({ intention: intentions })
+			.from(mentions)
+			.innerJoin(intentions, eq(intentions.id, mentions.intentionId))
+			.where(
+				and(
+					eq(mentions.beingId, auth.sessionBeingId),
+					input.cursor
+						? sql`(${mentions.createdAt}, ${mentions.intentionId}) < (select "createdAt", "intentionId" from ${mentions} where "beingId" = ${auth.sessionBeingId} and "intentionId" = ${input.cursor})`
+						: undefined,
+				),
+			)
+			.orderBy(desc(mentions.createdAt), desc(mentions.intentionId))
+			.limit(limit + 1);
+
+		const page = rows.slice(0, limit);
+		const last = page[page.length - 1];
+
+		return {
+			items: page.map((row) =>
+				redactThinking(selectIntentionSchema.parse(row.intention), auth),
+			),
+			nextCursor: rows.length > limit && last ? last.intention.id : null,
+		};
+	}
+}
@@ -0,0 +1,120 @@
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { z } from "zod/v4";
+import type { DrizzleDB } from "~/server/db";
+import { rateLimitBuckets } from "~/server/db/schema";
+import type { Being } from "~/server/db/types";
+
+/**
+ * A token bucket: up to `capacity` activations in a burst, refilled at `refillPerMinute`
+ */
+export const tokenBucketSchema = z.object({
+	capacity: z.number().int().min(1).max(1000),
+	refillPerMinute: z.number().positive().max(1000),
+});
+
+export type TokenBucket = z.infer<typeof tokenBucketSchema>;
+
+/**
+ * Activation limits on a bot or space, stored in `properties.rateLimit`.
+ * `perBot` limits each bot in each space (a bot's own setting wins over its
+ * space's); `perUser` limits the messages a person can wake bots with, and is
+ * read from the space they're talking in.
+ */
+export const rateLimitSchema = z.object({
+	perBot: tokenBucketSchema.optional(),
+	perUser: tokenBucketSchema.optional(),
+});
+
+export type RateLimit = z.infer<typeof rateLimitSchema>;
+
+const DEFAULT_PER_BOT: TokenBucket = { capacity: 20, refillPerMinute: 10 };
+const DEFAULT_PER_USER: TokenBucket = { capacity: 10, refillPerMinute: 6 };
+
+export type TakeResult =
+	| { allowed: true }
+	| { allowed: false; retryAfterSeconds: number };
+
+function getRateLimit(being: Being | null): RateLimit {
+	const result = rateLimitSchema.safeParse(being?.properties?.rateLimit);
+	return result.success ? result.data : {};
+}
+
+/**
+ * The per-bot bucket for a bot in a space
+ */
+export function getBotBucket(bot: Being, space: Being | null): TokenBucket {
+	return (
+		getRateLimit(bot).perBot ?? getRateLimit(space).perBot ?? DEFAULT_PER_BOT
+	);
+}
+
+/**
+ * The per-user bucket for people talking in a space
+ */
+export function getUserBucket(space: Being | null): TokenBucket {
+	return getRateLimit(space).perUser ?? DEFAULT_PER_USER;
+}
+
+export class RateLimitService {
+	constructor(private db: DrizzleDB) {}
+
+	/**
+	 * Take one token from a bucket, refilling it for the time since the last
+	 * take. Runs as a single upsert, so concurrent takes from any number of
+	 * server instances can't overdraw it.
+	 */
+	async take(key: string, bucket: TokenBucket): Promise<TakeResult> {
+		const perSecond = bucket.refillPerMinute / 60;
+		const refilled = sql`least(${bucket.capacity}::float8, ${rateLimitBuckets.tokens} + extract(epoch from now() - ${rateLimitBuckets.updatedAt})::float8 * ${perSecond}::float8)`;
+
+		const [taken] = await this.db
+			.insert(rateLimitBuckets)
+			.values({
+				key,
+				tokens: bucket.capacity - 1,
+				updatedAt: sql`now()`,
+			})
+			.onConflictDoUpdate({
+				target: rateLimitBuckets.key,
+				set: { tokens: sql`${refilled} - 1`, updatedAt: sql`now()` },
+				setWhere: sql`${refilled} >= 1`,
+			})
+			.returning({ tokens: rateLimitBuckets.tokens });
+
+		if (taken) return { allowed: true };
+
+		const [row] = await this.db
+			.select({ tokens: sql<number>`${refilled}` })
+			.from(rateLimitBuckets)
+			.where(eq(rateLimitBuckets.key, key));
+		const missing = Math.max(0, 1 - (row?.tokens ?? 0));
+		return {
+			allowed: false,
+			retryAfterSeconds: Math.max(1, Math.ceil(missing / perSecond)),
+		};
+	}
+
+	/**
+	 * Claim the right to post a throttle notice for a bucket, at most once per
+	 * interval, so a flood of throttled messages doesn't become a flood of notices
+	 */
+	async claimNotice(key: string, intervalMs: number): Promise<boolean> {
+		const claimed = await this.db
+			.update(rateLimitBuckets)
+			.set({ notifiedAt: sql`now()` })
+			.where(
+				and(
+					eq(rateLimitBuckets.key, key),
+					or(
+						isNull(rateLimitBuckets.notifiedAt),
+						lt(
+							rateLimitBuckets.notifiedAt,
+							sql`now() - make_interval(secs => ${intervalMs / 1000})`,
+						),
+					),
+				),
+			)
+			.returning({ key: rateLimitBuckets.key });
+		return claimed.length > 0;
+	}
+}
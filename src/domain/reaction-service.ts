@@ -0,0 +1,109 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { isInSpace } from "~/lib/permissions";
+import { ServerSync } from "~/lib/sync/server-sync";
+import type { ReactionSummary } from "~/lib/types";
+import type { DrizzleDB } from "~/server/db";
+import { intentions, reactions } from "~/server/db/schema";
+import type { IntentionId } from "~/server/db/types";
+import type { AuthContext } from "./auth-service";
+
+const serverSync = new ServerSync();
+
+export interface ToggleReactionInput {
+	intentionId: IntentionId;
+	emoji: string;
+}
+
+export class ReactionService {
+	constructor(private db: DrizzleDB) {}
+
+	/**
+	 * Add the caller's reaction, or remove it if they had already reacted
+	 * with that emoji. Only beings in the message's space (and superusers)
+	 * can react. Other clients in the space are told either way.
+	 */
+	async toggleReaction(
+		input: ToggleReactionInput,
+		auth: AuthContext,
+	): Promise<{ added: boolean }> {
+		const intention = await this.db.query.intentions.findFirst({
+			where: eq(intentions.id, input.intentionId),
+		});
+		if (!intention || intention.type !== "utterance" || intention.deletedAt) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: `Cannot react to ${input.intentionId}: it is not a message.`,
+			});
+		}
+		if (!isInSpace(auth.currentUser, intention.locationId)) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `You can only react to messages in the space you are in [intention ${input.intentionId}, you=${auth.sessionBeingId}].`,
+			});
+		}
+
+		const inserted = await this.db
+			.insert(reactions)
+			.values({
+				intentionId: input.intentionId,
+				beingId: auth.sessionBeingId,
+				emoji: input.emoji,
+			})
+			.onConflictDoNothing()
+			.returning({ emoji: reactions.emoji });
+
+		const added = inserted.length > 0;
+		if (!added) {
+			await this.db
+				.delete(reactions)
+				.where(
+					and(
+						eq(reactions.intentionId, input.intentionId),
+						eq(reactions.beingId, auth.sessionBeingId),
+						eq(reactions.emoji, input.emoji),
+					),
+				);
+		}
+
+		await serverSync.broadcast({
+			type: "reaction-changed",
+			data: {
+				intentionId: input.intentionId,
+				beingId: auth.sessionBeingId,
+				emoji: input.emoji,
+				added,
+			},
+			timestamp: new Date().toISOString(),
+			locationId: intention.locationId,
+		});
+
+		return { added };
+	}
+
+	/**
+	 * Reactions on each of the given intentions, grouped by emoji in the
+	 * order they were first used. Intentions without reactions are left out.
+	 */
+	async getReactions(
+		intentionIds: IntentionId[],
+	): Promise<Record<IntentionId, ReactionSummary[]>> {
+		if (intentionIds.length === 0) return {};
+
+		const rows = await this.db
+			.select()
+			.from(reactions)
+			.where(inArray(reactions.intentionId, intentionIds))
+			.orderBy(asc(reactions.createdAt));
+
+		const summaries: Record<IntentionId, ReactionSummary[]> = {};
+		for (const row of rows) {
+			const list = summaries[row.intentionId] ?? [];
+			summaries[row.intentionId] = list;
+			const summary = list.find((entry) => entry.emoji === row.emoji);
+			if (summary) summary.beingIds.push(row.beingId);
+			else list.push({ emoji: row.emoji, beingIds: [row.beingId] });
+		}
+		return summaries;
+	}
+}
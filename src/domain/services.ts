@@ -1,13 +1,27 @@
 import { db } from "~/server/db";
 import { AuthService } from "./auth-service";
 import { BeingService } from "./being-service";
+import { BotTemplateService } from "./bot-template-service";
 import { IntentionService } from "./intention-service";
+import { MemoryService } from "./memory-service";
+import { MentionService } from "./mention-service";
+import { RateLimitService } from "./rate-limit-service";
+import { ReactionService } from "./reaction-service";
+import { SummaryService } from "./summary-service";
+import { UsageService } from "./usage-service";
 
 // Service factory - creates service instances with database dependency
 export const createServices = () => ({
 	being: new BeingService(db),
 	intention: new IntentionService(db),
 	auth: new AuthService(db),
+	usage: new UsageService(db),
+	summary: new SummaryService(db),
+	memory: new MemoryService(db),
+	botTemplate: new BotTemplateService(db),
+	rateLimit: new RateLimitService(db),
+	reaction: new ReactionService(db),
+	mention: new MentionService(db),
 });
 
 // Type for the services object
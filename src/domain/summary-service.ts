@@ -0,0 +1,64 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { type CalendarBand, calendarBands } from "~/lib/types/summary";
+import type { DrizzleDB } from "~/server/db";
+import { summaryChunks } from "~/server/db/schema";
+import type { BeingId, SummaryChunk } from "~/server/db/types";
+
+export type UpsertSummaryChunkInput = Omit<SummaryChunk, "id" | "createdAt">;
+
+export class SummaryService {
+	constructor(private db: DrizzleDB) {}
+
+	/**
+	 * Summaries at or finer than the requested band, oldest first.
+	 * e.g. 'lastWeek' returns chunks for lastHour, lastDay and lastWeek.
+	 */
+	async getSummaryChunks(
+		spaceId: BeingId,
+		maxBand: CalendarBand,
+	): Promise<SummaryChunk[]> {
+		const bands = calendarBands.slice(0, calendarBands.indexOf(maxBand) + 1);
+		return this.db
+			.select()
+			.from(summaryChunks)
+			.where(
+				and(
+					eq(summaryChunks.spaceId, spaceId),
+					inArray(summaryChunks.band, bands),
+				),
+			)
+			.orderBy(asc(summaryChunks.rangeStart));
+	}
+
+	/**
+	 * Every stored chunk for a space, across all bands
+	 */
+	async getAllChunks(spaceId: BeingId): Promise<SummaryChunk[]> {
+		return this.db
+			.select()
+			.from(summaryChunks)
+			.where(eq(summaryChunks.spaceId, spaceId));
+	}
+
+	/**
+	 * Insert or replace the chunk for a window
+	 */
+	async upsertChunk(input: UpsertSummaryChunkInput): Promise<void> {
+		await this.db
+			.insert(summaryChunks)
+			.values(input)
+			.onConflictDoUpdate({
+				target: [
+					summaryChunks.spaceId,
+					summaryChunks.band,
+					summaryChunks.windowIndex,
+				],
+				set: { ...input, createdAt: new Date() },
+			});
+	}
+
+	async deleteChunks(ids: string[]): Promise<void> {
+		if (ids.length === 0) return;
+		await this.db.delete(summaryChunks).where(inArray(summaryChunks.id, ids));
+	}
+}
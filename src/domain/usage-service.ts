@@ -0,0 +1,162 @@
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { z } from "zod/v4";
+import type { DrizzleDB } from "~/server/db";
+import { llmUsage } from "~/server/db/schema";
+import type { Being, BeingId, IntentionId } from "~/server/db/types";
+import type { AuthContext } from "./auth-service";
+
+export interface RecordUsageInput {
+	intentionId: IntentionId;
+	botId: BeingId;
+	ownerId: BeingId | null;
+	spaceId: BeingId;
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	cost: number;
+}
+
+export interface SpendQueryInput {
+	groupBy: "bot" | "owner" | "space";
+	from: Date;
+	to: Date;
+}
+
+export interface SpendRow {
+	key: BeingId | null;
+	promptTokens: number;
+	completionTokens: number;
+	cost: number;
+	responses: number;
+}
+
+/**
+ * Spending limit on a bot or space, stored in `properties.budget`
+ */
+export const budgetSchema = z.object({
+	limitUsd: z.number().nonnegative(),
+	period: z.enum(["day", "month", "total"]).default("month"),
+});
+
+export type Budget = z.infer<typeof budgetSchema>;
+
+function getBudget(being: Being): Budget | null {
+	const result = budgetSchema.safeParse(being.properties?.budget);
+	return result.success ? result.data : null;
+}
+
+function periodStart(period: Budget["period"], now = new Date()): Date {
+	switch (period) {
+		case "day":
+			return new Date(
+				Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+			);
+		case "month":
+			return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+		case "total":
+			return new Date(0);
+	}
+}
+
+export class UsageService {
+	constructor(private db: DrizzleDB) {}
+
+	/**
+	 * Record token usage and estimated cost for one bot response
+	 */
+	async recordUsage(input: RecordUsageInput): Promise<void> {
+		await this.db.insert(llmUsage).values(input);
+	}
+
+	/**
+	 * Aggregate spend per bot, owner or space over a date range.
+	 * Superusers see everything; everyone else only sees bots they own.
+	 */
+	async getSpend(
+		input: SpendQueryInput,
+		auth: AuthContext,
+	): Promise<SpendRow[]> {
+		const key =
+			input.groupBy === "bot"
+				? llmUsage.botId
+				: input.groupBy === "owner"
+					? llmUsage.ownerId
+					: llmUsage.spaceId;
+
+		const rows = await this.db
+			.select({
+				key,
+				promptTokens: sql<number>`sum(${llmUsage.promptTokens})::int`,
+				completionTokens: sql<number>`sum(${llmUsage.completionTokens})::int`,
+				cost: sql<number>`sum(${llmUsage.cost})::float8`,
+				responses: sql<number>`count(*)::int`,
+			})
+			.from(llmUsage)
+			.where(
+				and(
+					gte(llmUsage.createdAt, input.from),
+					lte(llmUsage.createdAt, input.to),
+					auth.isCurrentUserSuperuser
+						? undefined
+						: eq(llmUsage.ownerId, auth.sessionBeingId),
+				),
+			)
+			.groupBy(key)
+			.orderBy(desc(sql`sum(${llmUsage.cost})`));
+
+		return rows.map((row) => ({ ...row, key: row.key as BeingId | null }));
+	}
+
+	/**
+	 * Total estimated cost since a date, for a bot or a space
+	 */
+	async getCostSince(
+		filter: { botId: BeingId } | { spaceId: BeingId },
+		since: Date,
+	): Promise<number> {
+		const [row] = await this.db
+			.select({ cost: sql<number>`coalesce(sum(${llmUsage.cost}), 0)::float8` })
+			.from(llmUsage)
+			.where(
+				and(
+					"botId" in filter
+						? eq(llmUsage.botId, filter.botId)
+						: eq(llmUsage.spaceId, filter.spaceId),
+					gte(llmUsage.createdAt, since),
+				),
+			);
+		return row?.cost ?? 0;
+	}
+
+	/**
+	 * Returns a reason if the bot or the space has used up its budget, otherwise null
+	 */
+	async getExceededBudget(
+		bot: Being,
+		space: Being | null,
+	): Promise<string | null> {
+		const botBudget = getBudget(bot);
+		if (botBudget) {
+			const spent = await this.getCostSince(
+				{ botId: bot.id },
+				periodStart(botBudget.period),
+			);
+			if (spent >= botBudget.limitUsd) {
+				return `Bot ${bot.id} has spent $${spent.toFixed(4)} of its $${botBudget.limitUsd} ${botBudget.period} budget`;
+			}
+		}
+
+		const spaceBudget = space ? getBudget(space) : null;
+		if (space && spaceBudget) {
+			const spent = await this.getCostSince(
+				{ spaceId: space.id },
+				periodStart(spaceBudget.period),
+			);
+			if (spent >= spaceBudget.limitUsd) {
+				return `Space ${space.id} has spent $${spent.toFixed(4)} of its $${spaceBudget.limitUsd} ${spaceBudget.period} budget`;
+			}
+		}
+
+		return null;
+	}
+}
@@ -18,6 +18,12 @@ export const env = createEnv({
 			.enum(["development", "test", "production"])
 			.default("development"),
 		OPENROUTER_API_KEY: z.string(),
+		LLM_KEY_ENCRYPTION_KEY: z.string().min(32).optional(),
+		LLM_ALLOWED_HOSTS: z.string().optional(), // Comma-separated; e.g. localhost for a self-hosted server
+		MODEL_CATALOG_SNAPSHOT: z.string().optional(),
+		EMBEDDINGS_BASE_URL: z.string().url().optional(),
+		EMBEDDINGS_API_KEY: z.string().optional(),
+		EMBEDDINGS_MODEL: z.string().default("text-embedding-3-small"),
 		LIVEKIT_HOST: z.string().url(),
 		LIVEKIT_WS_URL: z.string().url(),
 		LIVEKIT_API_KEY: z.string(),
@@ -44,6 +50,12 @@ export const env = createEnv({
 		DATABASE_URL: process.env.DATABASE_URL,
 		NODE_ENV: process.env.NODE_ENV,
 		OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+		LLM_KEY_ENCRYPTION_KEY: process.env.LLM_KEY_ENCRYPTION_KEY,
+		LLM_ALLOWED_HOSTS: process.env.LLM_ALLOWED_HOSTS,
+		MODEL_CATALOG_SNAPSHOT: process.env.MODEL_CATALOG_SNAPSHOT,
+		EMBEDDINGS_BASE_URL: process.env.EMBEDDINGS_BASE_URL,
+		EMBEDDINGS_API_KEY: process.env.EMBEDDINGS_API_KEY,
+		EMBEDDINGS_MODEL: process.env.EMBEDDINGS_MODEL,
 		LIVEKIT_HOST: process.env.LIVEKIT_HOST,
 		LIVEKIT_WS_URL: process.env.LIVEKIT_WS_URL,
 		LIVEKIT_API_KEY: process.env.LIVEKIT_API_KEY,
@@ -65,7 +65,6 @@ export function useBeingForm({
 				content: being.content || undefined,
 				botModel: being.botModel || undefined,
 				botPrompt: being.botPrompt || undefined,
-				llmApiKey: being.llmApiKey || undefined,
 			};
 		}
 		return baseDefaults;
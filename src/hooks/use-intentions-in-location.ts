@@ -1,24 +1,65 @@
-import type { BeingId } from "~/lib/types";
+import { useCallback, useMemo } from "react";
+import type { BeingId, IntentionId, ReactionSummary } from "~/lib/types";
 import type { Intention } from "~/server/db/types";
 import { api } from "~/trpc/react";
 
+// Intentions fetched per page of history
+export const INTENTION_PAGE_SIZE = 50;
+
+export interface IntentionHistory {
+	intentions: Intention[]; // Oldest first, as the chat shows them
+	replyCounts: Record<IntentionId, number>; // Thread sizes, for the main stream
+	reactions: Record<IntentionId, ReactionSummary[]>; // For intentions that have reactions
+	hasOlder: boolean;
+	isFetchingOlder: boolean;
+	fetchOlder: () => void;
+}
+
 /**
- * Focused hook for fetching intentions (utterances) in a specific location
- * Handles error logging and provides a clean interface for components
+ * Focused hook for paging through intentions (utterances) in a specific location,
+ * or through one thread's replies when given its first message's ID.
+ * The newest page loads first; older pages load on demand, e.g. on scroll-up.
  */
-export function useIntentionsInLocation(locationId: BeingId): Intention[] {
-	const { data, error } = api.intention.getAllUtterancesInBeing.useQuery(
-		{ beingId: locationId },
-		{
-			enabled: !!locationId,
-			staleTime: 1000 * 30, // 30 seconds - intentions change more frequently
-		},
+export function useIntentionsInLocation(
+	locationId: BeingId,
+	parentId?: IntentionId,
+): IntentionHistory {
+	const { data, hasNextPage, isFetchingNextPage, fetchNextPage } =
+		api.intention.list.useInfiniteQuery(
+			{ beingId: locationId, limit: INTENTION_PAGE_SIZE, parentId },
+			{
+				enabled: !!locationId,
+				staleTime: 1000 * 30, // 30 seconds - sync events patch pages in between
+				getNextPageParam: (lastPage) => lastPage.nextCursor,
+			},
+		);
+
+	// Pages and their items are newest first
+	const intentions = useMemo(
+		() => (data?.pages ?? []).flatMap((page) => page.items).reverse(),
+		[data],
+	);
+	const replyCounts = useMemo(
+		() =>
+			Object.assign({}, ...(data?.pages ?? []).map((page) => page.replyCounts)),
+		[data],
+	);
+	const reactions = useMemo(
+		() =>
+			Object.assign({}, ...(data?.pages ?? []).map((page) => page.reactions)),
+		[data],
 	);
 
-	if (error) {
-		// Error will be surfaced through React Query's error handling
-		// Consumer components should handle display appropriately
-	}
+	const fetchOlder = useCallback(() => {
+		if (hasNextPage && !isFetchingNextPage) void fetchNextPage();
+	}, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-	return data || [];
+	return {
+		intentions,
+		replyCounts,
+		reactions,
+		hasOlder: hasNextPage,
+		isFetchingOlder: isFetchingNextPage,
+		fetchOlder,
+	};
 }
@@ -1,8 +1,293 @@
-import { useQueryClient } from "@tanstack/react-query";
+import {
+	type InfiniteData,
+	type QueryClient,
+	useQueryClient,
+} from "@tanstack/react-query";
 import { type RemoteParticipant, type Room, RoomEvent } from "livekit-client";
 import { useEffect } from "react";
-import type { SyncEvent } from "~/lib/sync";
-import type { BeingId } from "~/lib/types";
+import {
+	type IntentionDeltaSyncEvent,
+	type ReactionChangedSyncEvent,
+	type SyncEvent,
+	streamAttempt,
+} from "~/lib/sync";
+import type { BeingId, IntentionId } from "~/lib/types";
+import type { Intention } from "~/server/db/types";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+// Deltas kept per intention until a fetched checkpoint covers them
+const MAX_BUFFERED_DELTAS = 1000;
+
+// One intention's deltas by seq, for the attempt currently streaming
+interface DeltaBuffer {
+	attempt: number;
+	deltas: Map<number, string>;
+}
+
+type DeltaBuffers = Map<string, DeltaBuffer>;
+
+type IntentionPages = InfiniteData<RouterOutputs["intention"]["list"]>;
+
+const listQueryKey = (
+	locationId: BeingId,
+	thread?: { parentId: IntentionId | undefined },
+) => [
+	["intention", "list"],
+	{ input: { beingId: locationId, ...thread }, type: "infinite" },
+];
+
+/**
+ * Patch the loaded pages of a location's main stream and threads: `update`
+ * gets each cached intention with the given ID and returns its replacement
+ * (null removes it).
+ */
+function patchIntentionPages(
+	queryClient: QueryClient,
+	locationId: BeingId,
+	id: string,
+	update: (intention: Intention) => Intention | null,
+): void {
+	queryClient.setQueriesData<IntentionPages>(
+		{ queryKey: listQueryKey(locationId) },
+		(data) => {
+			if (!data) return data;
+			const pages = data.pages.map((page) => {
+				const index = page.items.findIndex((i) => i.id === id);
+				const current = page.items[index];
+				if (!current) return page;
+				const next = update(current);
+				if (next === current) return page;
+				const items = [...page.items];
+				if (next) items[index] = next;
+				else items.splice(index, 1);
+				return { ...page, items };
+			});
+			return { ...data, pages };
+		},
+	);
+}
+
+/**
+ * Add a new intention to the newest page of its stream (the main stream or
+ * its thread), and count a reply on its thread's first message
+ */
+function insertIntention(
+	queryClient: QueryClient,
+	locationId: BeingId,
+	intention: Intention,
+): void {
+	queryClient.setQueriesData<IntentionPages>(
+		{
+			queryKey: listQueryKey(locationId, {
+				parentId: intention.parentId ?? undefined,
+			}),
+		},
+		(data) => {
+			const [newest, ...older] = data?.pages ?? [];
+			if (
+				!data ||
+				!newest ||
+				data.pages.some((page) => page.items.some((i) => i.id === intention.id))
+			) {
+				return data;
+			}
+			return {
+				...data,
+				pages: [{ ...newest, items: [intention, ...newest.items] }, ...older],
+			};
+		},
+	);
+
+	const { parentId } = intention;
+	if (!parentId) return;
+	queryClient.setQueriesData<IntentionPages>(
+		{ queryKey: listQueryKey(locationId, { parentId: undefined }) },
+		(data) =>
+			data && {
+				...data,
+				pages: data.pages.map((page) =>
+					page.items.some((i) => i.id === parentId)
+						? {
+								...page,
+								replyCounts: {
+									...page.replyCounts,
+									[parentId]: (page.replyCounts[parentId] ?? 0) + 1,
+								},
+							}
+						: page,
+				),
+			},
+	);
+}
+
+/**
+ * Add or remove one reaction on a cached intention, wherever it is loaded
+ */
+function applyReactionChange(
+	queryClient: QueryClient,
+	locationId: BeingId,
+	event: ReactionChangedSyncEvent,
+): void {
+	const { intentionId, beingId, emoji, added } = event.data;
+	const id = intentionId as IntentionId;
+
+	queryClient.setQueriesData<IntentionPages>(
+		{ queryKey: listQueryKey(locationId) },
+		(data) =>
+			data && {
+				...data,
+				pages: data.pages.map((page) => {
+					if (!page.items.some((i) => i.id === id)) return page;
+
+					const current = page.reactions[id] ?? [];
+					const others = (summary: { beingIds: BeingId[] }) =>
+						summary.beingIds.filter((other) => other !== beingId);
+					const updated = current.some((summary) => summary.emoji === emoji)
+						? current.map((summary) =>
+								summary.emoji === emoji
+									? {
+											emoji,
+											beingIds: added
+												? [...others(summary), beingId as BeingId]
+												: others(summary),
+										}
+									: summary,
+							)
+						: added
+							? [...current, { emoji, beingIds: [beingId as BeingId] }]
+							: current;
+
+					return {
+						...page,
+						reactions: {
+							...page.reactions,
+							[id]: updated.filter((summary) => summary.beingIds.length > 0),
+						},
+					};
+				}),
+			},
+	);
+}
+
+const streamSeqOf = (intention: Intention): number => {
+	const seq = intention.metadata?.streamSeq;
+	return typeof seq === "number" ? seq : 0;
+};
+
+/**
+ * Append buffered deltas to a streaming intention, in sequence order
+ * starting after its last checkpoint. Deltas past a gap, or for a different
+ * attempt, leave it as it is.
+ */
+function replayDeltas(
+	intention: Intention,
+	buffer: DeltaBuffer | undefined,
+): Intention {
+	if (
+		!buffer ||
+		intention.state !== "active" ||
+		streamAttempt(intention.metadata) !== buffer.attempt
+	) {
+		return intention;
+	}
+
+	const start = streamSeqOf(intention);
+	let appliedSeq = start;
+	// Text streams into the last node; after a structured island it starts a new one
+	const nodes = intention.content as unknown[];
+	const last = nodes[nodes.length - 1];
+	const before = typeof last === "string" ? nodes.slice(0, -1) : nodes;
+	let content = typeof last === "string" ? last : "";
+
+	let next = buffer.deltas.get(appliedSeq + 1);
+	while (next !== undefined) {
+		content += next;
+		appliedSeq++;
+		next = buffer.deltas.get(appliedSeq + 1);
+	}
+	if (appliedSeq === start) return intention;
+
+	return {
+		...intention,
+		content: [...before, content] as Intention["content"],
+		metadata: { ...intention.metadata, streamSeq: appliedSeq },
+	};
+}
+
+/**
+ * Whether a fetched intention is older than the cached one: an earlier
+ * attempt, a checkpoint behind the deltas already applied, or still
+ * streaming when the cache has it finished. Fetches can resolve out of order.
+ */
+function isBehind(fetched: Intention, cached: Intention): boolean {
+	const fetchedAttempt = streamAttempt(fetched.metadata);
+	const cachedAttempt = streamAttempt(cached.metadata);
+	if (fetchedAttempt !== cachedAttempt) return fetchedAttempt < cachedAttempt;
+	if (fetched.state !== "active") return false;
+	return (
+		cached.state !== "active" || streamSeqOf(fetched) < streamSeqOf(cached)
+	);
+}
+
+/**
+ * Buffer a delta and apply what it completes to the cached intention.
+ * Deltas stay buffered until a fetched checkpoint covers them, so they can
+ * be replayed over it; a delta for a newer attempt starts a fresh buffer.
+ */
+function applyIntentionDelta(
+	queryClient: QueryClient,
+	locationId: BeingId,
+	buffers: DeltaBuffers,
+	event: IntentionDeltaSyncEvent,
+): void {
+	const { id, attempt, seq, text } = event.data;
+	let buffer = buffers.get(id);
+	if (!buffer || attempt > buffer.attempt) {
+		buffer = { attempt, deltas: new Map() };
+		buffers.set(id, buffer);
+	} else if (attempt < buffer.attempt) {
+		return; // Left over from an attempt that was regenerated
+	}
+	buffer.deltas.set(seq, text);
+	if (buffer.deltas.size > MAX_BUFFERED_DELTAS) buffer.deltas.clear();
+
+	const current = buffer;
+	patchIntentionPages(queryClient, locationId, id, (intention) =>
+		replayDeltas(intention, current),
+	);
+}
+
+/**
+ * Put a fetched intention in the cache, unless the cached copy is newer,
+ * with any buffered deltas past its checkpoint replayed on top. Deltas the
+ * checkpoint covers are dropped, and the whole buffer once streaming ends.
+ */
+function applyFetchedIntention(
+	queryClient: QueryClient,
+	locationId: BeingId,
+	buffers: DeltaBuffers,
+	id: string,
+	fetched: Intention | null,
+): Intention | null {
+	const buffer = buffers.get(id);
+	if (fetched && buffer) {
+		const attempt = streamAttempt(fetched.metadata);
+		if (fetched.state !== "active" && attempt >= buffer.attempt) {
+			buffers.delete(id);
+		} else if (attempt === buffer.attempt) {
+			const covered = streamSeqOf(fetched);
+			for (const seq of buffer.deltas.keys()) {
+				if (seq <= covered) buffer.deltas.delete(seq);
+			}
+		}
+	}
+
+	const replayed = fetched && replayDeltas(fetched, buffers.get(id));
+	patchIntentionPages(queryClient, locationId, id, (cached) =>
+		replayed && isBehind(replayed, cached) ? cached : replayed,
+	);
+	return replayed;
+}
 
 /**
  * Focused hook for coordinating sync events with data invalidation
@@ -10,10 +295,13 @@ import type { BeingId } from "~/lib/types";
  */
 export function useLiveKitSync(locationId: BeingId, room: Room | null): void {
 	const queryClient = useQueryClient();
+	const utils = api.useUtils();
 
 	useEffect(() => {
 		if (!room || !locationId) return;
 
+		const deltaBuffers: DeltaBuffers = new Map();
+
 		const handleDataReceived = (
 			payload: Uint8Array,
 			participant?: RemoteParticipant,
@@ -36,12 +324,31 @@ export function useLiveKitSync(locationId: BeingId, room: Room | null): void {
 						break;
 					case "intention-created":
 					case "intention-updated":
-						queryClient.invalidateQueries({
-							queryKey: [
-								["intention", "getAllUtterancesInBeing"],
-								{ input: { beingId: locationId } },
-							],
-						});
+						// Refetch just this intention rather than every loaded page
+						void utils.intention.get
+							.fetch({ id: event.data.id as IntentionId }, { staleTime: 0 })
+							.then((fetched) => {
+								const intention = applyFetchedIntention(
+									queryClient,
+									locationId,
+									deltaBuffers,
+									event.data.id,
+									fetched,
+								);
+								if (intention && event.type === "intention-created") {
+									insertIntention(queryClient, locationId, intention);
+								}
+							})
+							.catch((error) =>
+								console.error("Error fetching synced intention:", error),
+							);
+						break;
+					case "reaction-changed":
+						applyReactionChange(queryClient, locationId, event);
+						break;
+					case "intention-delta":
+						// Streaming text is patched in place - no refetch
+						applyIntentionDelta(queryClient, locationId, deltaBuffers, event);
 						break;
 				}
 			} catch (error) {
@@ -54,5 +361,5 @@ export function useLiveKitSync(locationId: BeingId, room: Room | null): void {
 		return () => {
 			room.off(RoomEvent.DataReceived, handleDataReceived);
 		};
-	}, [room, locationId, queryClient]);
+	}, [room, locationId, queryClient, utils]);
 }
@@ -7,7 +7,7 @@ import { useLiveKitSync } from "./use-livekit-sync";
 export function useSync(spaceId: BeingId) {
 	// Use focused data hooks for cleaner separation of concerns
 	const beings = useBeingsInLocation(spaceId);
-	const intentions = useIntentionsInLocation(spaceId);
+	const history = useIntentionsInLocation(spaceId);
 
 	// Use focused connection hook (eliminates singleton pattern)
 	const { room, isConnected } = useLiveKitConnection(spaceId);
@@ -17,7 +17,7 @@ export function useSync(spaceId: BeingId) {
 
 	return {
 		beings,
-		intentions,
+		...history,
 		isConnected,
 		room,
 	};
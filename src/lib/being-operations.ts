@@ -20,9 +20,28 @@ import type {
 	Intention,
 	IntentionId,
 } from "~/server/db/types";
+import { encryptSecret, secretHint } from "~/server/lib/secrets";
 
 const serverSync = new ServerSync();
 
+/**
+ * Map the write-only llmApiKey input onto its stored columns: encrypt a new
+ * key, clear on null, and leave the stored key alone otherwise.
+ */
+function apiKeyColumns(
+	llmApiKey: string | null | undefined,
+): Partial<Pick<typeof beings.$inferInsert, "llmApiKey" | "llmApiKeyLast4">> {
+	if (llmApiKey === null) {
+		return { llmApiKey: null, llmApiKeyLast4: null };
+	}
+	const trimmed = llmApiKey?.trim();
+	if (!trimmed) return {};
+	return {
+		llmApiKey: encryptSecret(trimmed),
+		llmApiKeyLast4: secretHint(trimmed),
+	};
+}
+
 export interface UpdateBeingInput extends Partial<InsertBeing> {
 	id: BeingId;
 }
@@ -53,13 +72,14 @@ export async function createBeing(
 	}
 
 	// Validate input
-	const validatedInput = insertBeingSchema.parse(input);
+	const { llmApiKey, ...validatedInput } = insertBeingSchema.parse(input);
 
 	// Database insert
 	const result = await db
 		.insert(beings)
 		.values({
 			...validatedInput,
+			...apiKeyColumns(llmApiKey),
 			modifiedAt: new Date(),
 		})
 		.returning();
@@ -92,9 +112,130 @@ export async function createBeing(
 		});
 	}
 
+	// Presence event for server-side triggers (e.g. greeter bots)
+	if (input.locationId && syncEmitter) {
+		syncEmitter.emit("being-location-change", {
+			beingId: input.id,
+			spaceId: input.locationId,
+			oldSpaceId: null,
+		});
+	}
+
+	// Remember documents for semantic search (runs in the background)
+	const { indexBeingInBackground } = await import("~/server/lib/vector-memory");
+	indexBeingInBackground(newBeing);
+
 	return newBeing;
 }
 
+/**
+ * Being updated - notify both old and new spaces if location changed
+ */
+async function broadcastBeingUpdated(
+	id: BeingId,
+	oldSpaceId: string | null,
+	newSpaceId: string | null | undefined,
+): Promise<void> {
+	if (oldSpaceId && oldSpaceId !== newSpaceId) {
+		// Notify old space that being left
+		await serverSync.broadcast({
+			type: "being-updated",
+			data: { id },
+			timestamp: new Date().toISOString(),
+			locationId: oldSpaceId,
+		});
+	}
+
+	if (newSpaceId) {
+		// Notify new space that being joined/updated
+		await serverSync.broadcast({
+			type: "being-updated",
+			data: { id },
+			timestamp: new Date().toISOString(),
+			locationId: newSpaceId,
+		});
+	}
+}
+
+/**
+ * Location events for server-side agents and triggers
+ */
+function emitLocationChange(
+	being: Being,
+	previousSpaceId: string | null,
+	spaceId: string | null | undefined,
+): void {
+	if (!syncEmitter) return;
+
+	// Emit bot location change event for server-side agents
+	if (being.type === "bot") {
+		syncEmitter.emit("bot-location-change", {
+			beingId: being.id,
+			spaceId,
+			oldSpaceId: previousSpaceId,
+		});
+	}
+
+	// Presence event for server-side triggers (e.g. greeter bots)
+	if ((spaceId || null) !== previousSpaceId) {
+		syncEmitter.emit("being-location-change", {
+			beingId: being.id,
+			spaceId: spaceId || null,
+			oldSpaceId: previousSpaceId,
+		});
+	}
+}
+
+/**
+ * Move a being to another space. Beings may always move themselves (e.g. a
+ * bot using its move tool); moving anyone else takes the right to edit them.
+ */
+export async function moveBeing(
+	db: DrizzleDB,
+	id: BeingId,
+	spaceId: BeingId,
+	auth: AuthContext,
+): Promise<Being> {
+	const { sessionBeingId, isCurrentUserSuperuser } = auth;
+
+	const existingBeing = await db.query.beings.findFirst({
+		where: eq(beings.id, id),
+	});
+	if (!existingBeing) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: `Being with ID "${id}" not found.`,
+		});
+	}
+	if (
+		sessionBeingId !== id &&
+		!canEdit(sessionBeingId, existingBeing.ownerId, isCurrentUserSuperuser)
+	) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: `You can only move yourself or beings you own [Tried to move ${id} owned by ${existingBeing.ownerId || "UNDEFINED"}, you=${sessionBeingId || "UNDEFINED"}.]`,
+		});
+	}
+
+	const result = await db
+		.update(beings)
+		.set({ locationId: spaceId, modifiedAt: new Date() })
+		.where(eq(beings.id, id))
+		.returning();
+	if (!result[0]) {
+		throw new TRPCError({
+			code: "INTERNAL_SERVER_ERROR",
+			message: "Failed to move being",
+		});
+	}
+
+	const movedBeing = selectBeingSchema.parse(result[0]);
+	await broadcastBeingUpdated(id, existingBeing.locationId, spaceId);
+	emitLocationChange(movedBeing, existingBeing.locationId, spaceId);
+
+	return movedBeing;
+}
+
 /**
  * Update an existing being with authorization, database upsert, and sync notifications
  */
@@ -119,19 +260,22 @@ export async function updateBeing(
 	});
 
 	// Validate input for upsert
-	const upsertData = insertBeingSchema.parse(input);
+	const { llmApiKey, ...upsertData } = insertBeingSchema.parse(input);
+	const keyColumns = apiKeyColumns(llmApiKey);
 
 	// Use Drizzle's ON CONFLICT for an atomic upsert operation
 	const result = await db
 		.insert(beings)
 		.values({
 			...upsertData,
+			...keyColumns,
 			modifiedAt: new Date(),
 		})
 		.onConflictDoUpdate({
 			target: beings.id,
 			set: {
 				...upsertData,
+				...keyColumns,
 				modifiedAt: new Date(),
 			},
 		})
@@ -158,39 +302,20 @@ export async function updateBeing(
 			});
 		}
 	} else {
-		// Being updated - notify both old and new spaces if location changed
-		const oldSpaceId = existingBeing.locationId;
-		const newSpaceId = input.locationId;
-
-		if (oldSpaceId && oldSpaceId !== newSpaceId) {
-			// Notify old space that being left
-			await serverSync.broadcast({
-				type: "being-updated",
-				data: { id: input.id },
-				timestamp: new Date().toISOString(),
-				locationId: oldSpaceId,
-			});
-		}
-
-		if (newSpaceId) {
-			// Notify new space that being joined/updated
-			await serverSync.broadcast({
-				type: "being-updated",
-				data: { id: input.id },
-				timestamp: new Date().toISOString(),
-				locationId: newSpaceId,
-			});
-		}
+		await broadcastBeingUpdated(
+			input.id,
+			existingBeing.locationId,
+			input.locationId,
+		);
 	}
+	emitLocationChange(
+		updatedBeing,
+		existingBeing?.locationId || null,
+		input.locationId,
+	);
 
-	// Emit bot location change event for server-side agents
-	if (input.type === "bot" && syncEmitter) {
-		syncEmitter.emit("bot-location-change", {
-			beingId: input.id,
-			spaceId: input.locationId,
-			oldSpaceId: existingBeing?.locationId || null,
-		});
-	}
+	const { indexBeingInBackground } = await import("~/server/lib/vector-memory");
+	indexBeingInBackground(updatedBeing);
 
 	return updatedBeing;
 }
@@ -234,8 +359,20 @@ export async function createIntention(
 			timestamp: new Date().toISOString(),
 			locationId: input.locationId,
 		});
+
+		// Keep the space's summaries current (debounced, runs in the background)
+		const { scheduleSummaryRefresh } = await import(
+			"~/server/lib/summary-engine"
+		);
+		scheduleSummaryRefresh(input.locationId as BeingId, newIntention.createdAt);
 	}
 
+	// Remember finished utterances for semantic search (runs in the background)
+	const { indexIntentionInBackground } = await import(
+		"~/server/lib/vector-memory"
+	);
+	indexIntentionInBackground(newIntention);
+
 	// NOTE: Bot activation is NOT done here - it's only done for user utterances
 	// in the IntentionService.createUtterance method to avoid infinite loops
 
@@ -295,7 +432,20 @@ export async function updateIntention(
 			timestamp: new Date().toISOString(),
 			locationId: updatedIntention.locationId,
 		});
+
+		const { scheduleSummaryRefresh } = await import(
+			"~/server/lib/summary-engine"
+		);
+		scheduleSummaryRefresh(
+			updatedIntention.locationId as BeingId,
+			updatedIntention.createdAt,
+		);
 	}
 
+	const { indexIntentionInBackground } = await import(
+		"~/server/lib/vector-memory"
+	);
+	indexIntentionInBackground(updatedIntention);
+
 	return updatedIntention;
 }
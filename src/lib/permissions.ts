@@ -51,3 +51,32 @@ export function canEdit(
 	// Regular users can only edit beings they own
 	return currentUserBeingId === targetOwnerId;
 }
+
+/**
+ * Check if a user can stop or retry a bot's response: the bot's owner, whoever
+ * sent the message it responds to, or a superuser
+ */
+export function canControlBotResponse(
+	currentUserBeingId: string | null | undefined,
+	botOwnerId: string | null | undefined,
+	triggerOwnerId: string | null | undefined,
+	currentUserIsSuperuser = false,
+): boolean {
+	if (!currentUserBeingId) return false;
+	return (
+		canEdit(currentUserBeingId, botOwnerId, currentUserIsSuperuser) ||
+		currentUserBeingId === triggerOwnerId
+	);
+}
+
+/**
+ * Check if a being is inside a space (superusers count as everywhere), for
+ * acting on or searching what happens there
+ */
+export function isInSpace(
+	viewer: Being | null | undefined,
+	spaceId: string,
+): boolean {
+	if (!viewer) return false;
+	return isSuperuser(viewer) || viewer.locationId === spaceId;
+}
@@ -1,5 +1,5 @@
 // Unified sync event types
-export interface SyncEvent {
+export interface EntitySyncEvent {
 	type:
 		| "being-created"
 		| "being-updated"
@@ -10,6 +10,44 @@ export interface SyncEvent {
 	locationId: string;
 }
 
+// Text appended to a streaming intention, applied to client caches in place.
+// `seq` counts deltas per stream from 1; checkpoints store the last one sent
+// in `metadata.streamSeq`, so clients can tell which deltas they already have.
+// Regenerating starts a new stream, told apart by `attempt` (see streamAttempt).
+export interface IntentionDeltaSyncEvent {
+	type: "intention-delta";
+	data: { id: string; attempt: number; seq: number; text: string };
+	timestamp: string;
+	locationId: string;
+}
+
+/**
+ * Which attempt at a bot reply an intention streams: 0 for the first, one
+ * more for each regenerate (earlier attempts are kept in `metadata.alternates`)
+ */
+export function streamAttempt(metadata: unknown): number {
+	const alternates =
+		typeof metadata === "object" &&
+		metadata !== null &&
+		"alternates" in metadata
+			? metadata.alternates
+			: undefined;
+	return Array.isArray(alternates) ? alternates.length : 0;
+}
+
+// A reaction toggled on an intention; clients adjust their counters in place
+export interface ReactionChangedSyncEvent {
+	type: "reaction-changed";
+	data: { intentionId: string; beingId: string; emoji: string; added: boolean };
+	timestamp: string;
+	locationId: string;
+}
+
+export type SyncEvent =
+	| EntitySyncEvent
+	| IntentionDeltaSyncEvent
+	| ReactionChangedSyncEvent;
+
 // Server-side singleton event emitter (only available on server)
 let serverEventEmitter: any = null;
 
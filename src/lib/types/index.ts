@@ -17,3 +17,23 @@ export {
 	generateIntentionIdWithPrefix,
 } from "../id-generation";
 export type * from "./llm";
+export { calendarBands } from "./summary";
+export type { CalendarBand } from "./summary";
+export {
+	isStructuredIslandType,
+	parseStructuredIsland,
+	structuredIslandSchemas,
+	structuredIslandToText,
+	structuredIslandTypes,
+} from "./islands";
+export type { StructuredIsland, StructuredIslandType } from "./islands";
+export type { ReactionSummary } from "./reactions";
+export {
+	MENTION_TOKEN_PATTERN,
+	findMentionTokens,
+	isMentionIsland,
+	mentionToken,
+	parseMentionTokens,
+	toMentionTokenText,
+} from "./mentions";
+export type { MentionIslandProps } from "./mentions";
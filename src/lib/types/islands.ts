@@ -0,0 +1,91 @@
+import { z } from "zod/v4";
+
+/**
+ * Props of the structured data islands bots can emit, by island type.
+ * Shared by the server (validating model output) and RichContent (rendering).
+ */
+export const structuredIslandSchemas = {
+	poll: z.object({
+		question: z.string().min(1).max(500),
+		options: z.array(z.string().min(1).max(200)).min(2).max(10),
+	}),
+	"task-list": z.object({
+		title: z.string().max(200).optional(),
+		items: z
+			.array(
+				z.object({
+					text: z.string().min(1).max(500),
+					done: z.boolean().default(false),
+				}),
+			)
+			.min(1)
+			.max(50),
+	}),
+	"link-card": z.object({
+		url: z.string().url().startsWith("https://"),
+		title: z.string().min(1).max(200),
+		description: z.string().max(500).optional(),
+	}),
+	"code-block": z.object({
+		filename: z.string().max(200).optional(),
+		language: z.string().max(40).optional(),
+		code: z.string().min(1).max(20_000),
+	}),
+};
+
+export type StructuredIslandType = keyof typeof structuredIslandSchemas;
+
+export type StructuredIsland = {
+	[T in StructuredIslandType]: {
+		type: T;
+		props: z.infer<(typeof structuredIslandSchemas)[T]>;
+	};
+}[StructuredIslandType];
+
+export const structuredIslandTypes = Object.keys(
+	structuredIslandSchemas,
+) as StructuredIslandType[];
+
+export function isStructuredIslandType(
+	type: string,
+): type is StructuredIslandType {
+	return Object.hasOwn(structuredIslandSchemas, type);
+}
+
+/**
+ * Validate a content node as a structured island; null if it isn't one (or its props are off)
+ */
+export function parseStructuredIsland(node: unknown): StructuredIsland | null {
+	if (typeof node !== "object" || node === null || !("type" in node)) {
+		return null;
+	}
+	const { type } = node;
+	if (typeof type !== "string" || !isStructuredIslandType(type)) return null;
+
+	const props = structuredIslandSchemas[type].safeParse(
+		"props" in node ? node.props : undefined,
+	);
+	return props.success
+		? ({ type, props: props.data } as StructuredIsland)
+		: null;
+}
+
+/**
+ * Plain-text rendering of a structured island, for prompts, summaries and search
+ */
+export function structuredIslandToText(island: StructuredIsland): string {
+	switch (island.type) {
+		case "poll":
+			return `[poll] ${island.props.question}\n${island.props.options
+				.map((option) => `- ${option}`)
+				.join("\n")}`;
+		case "task-list":
+			return `[tasks]${island.props.title ? ` ${island.props.title}` : ""}\n${island.props.items
+				.map((item) => `- [${item.done ? "x" : " "}] ${item.text}`)
+				.join("\n")}`;
+		case "link-card":
+			return `[link] ${island.props.title} (${island.props.url})${island.props.description ? `\n${island.props.description}` : ""}`;
+		case "code-block":
+			return `[code${island.props.filename ? `: ${island.props.filename}` : ""}]\n\`\`\`${island.props.language ?? ""}\n${island.props.code}\n\`\`\``;
+	}
+}
@@ -0,0 +1,75 @@
+import type { ContentDataIsland, ContentNode } from "~/server/db/content-types";
+import { type BeingId, isBeingId } from "./ids";
+
+/**
+ * Props of a mention island: `{ type: "mention", props: { beingId, name } }`.
+ * `name` is the being's name when the message was sent, for display.
+ */
+export interface MentionIslandProps {
+	beingId: BeingId;
+	name: string;
+}
+
+export function isMentionIsland(
+	node: ContentNode,
+): node is ContentDataIsland & { props: MentionIslandProps } {
+	return (
+		typeof node !== "string" &&
+		node.type === "mention" &&
+		typeof node.props?.beingId === "string" &&
+		isBeingId(node.props.beingId) &&
+		typeof node.props?.name === "string"
+	);
+}
+
+// How the chat input writes a mention into message text: `<@being-id>`
+export const MENTION_TOKEN_PATTERN = /<([@/][^<>\s]+)>/g;
+
+export function mentionToken(beingId: BeingId): string {
+	return `<${beingId}>`;
+}
+
+/**
+ * Beings mentioned by token in message text, in order, without repeats
+ */
+export function findMentionTokens(text: string): BeingId[] {
+	const ids = [...text.matchAll(MENTION_TOKEN_PATTERN)].map(
+		(match) => match[1] as BeingId,
+	);
+	return [...new Set(ids)];
+}
+
+/**
+ * Split message text into strings and mention islands. Tokens for beings
+ * missing from `names` are left as they were.
+ */
+export function parseMentionTokens(
+	text: string,
+	names: Map<BeingId, string>,
+): ContentNode[] {
+	const nodes: ContentNode[] = [];
+	let last = 0;
+	for (const match of text.matchAll(MENTION_TOKEN_PATTERN)) {
+		const beingId = match[1] as BeingId;
+		const name = names.get(beingId);
+		if (name === undefined) continue;
+		if (match.index > last) nodes.push(text.slice(last, match.index));
+		nodes.push({ type: "mention", props: { beingId, name } });
+		last = match.index + match[0].length;
+	}
+	if (last < text.length) nodes.push(text.slice(last));
+	return nodes;
+}
+
+/**
+ * The reverse of parseMentionTokens: message text with mentions as tokens,
+ * for editing. Other islands are left out.
+ */
+export function toMentionTokenText(nodes: ContentNode[]): string {
+	return nodes
+		.map((node) => {
+			if (typeof node === "string") return node;
+			return isMentionIsland(node) ? mentionToken(node.props.beingId) : "";
+		})
+		.join("");
+}
@@ -0,0 +1,9 @@
+import type { BeingId } from "./ids";
+
+/**
+ * One emoji's reactions on an intention, with who reacted (oldest first)
+ */
+export interface ReactionSummary {
+	emoji: string;
+	beingIds: BeingId[];
+}
@@ -0,0 +1,14 @@
+/**
+ * Calendar bands for space summaries, finest first. Each band covers messages
+ * of a certain age (under an hour, under a day, ...) at a coarser resolution.
+ */
+export const calendarBands = [
+	"lastHour",
+	"lastDay",
+	"lastWeek",
+	"lastMonth",
+	"lastYear",
+	"allTime",
+] as const;
+
+export type CalendarBand = (typeof calendarBands)[number];
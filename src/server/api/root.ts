@@ -1,7 +1,10 @@
 import { authRouter } from "~/server/api/routers/auth";
 import { beingRouter } from "~/server/api/routers/being"; // 1. Import router
+import { botTemplateRouter } from "~/server/api/routers/bot-template";
 import { intentionRouter } from "~/server/api/routers/intention";
 import { livekitRouter } from "~/server/api/routers/livekit";
+import { modelsRouter } from "~/server/api/routers/models";
+import { usageRouter } from "~/server/api/routers/usage";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -14,6 +17,9 @@ export const appRouter = createTRPCRouter({
 	being: beingRouter, // 2. Add router
 	auth: authRouter,
 	livekit: livekitRouter,
+	usage: usageRouter,
+	models: modelsRouter,
+	botTemplate: botTemplateRouter,
 });
 
 // export type definition of API
@@ -23,6 +29,6 @@ export type AppRouter = typeof appRouter;
  * Create a server-side caller for the tRPC API.
  * @.env.example
  * const trpc = createCaller(createContext);
- * const res = await trpc.intention.getAllUtterancesInBeing({ beingId: " @some-being" });
+ * const res = await trpc.intention.list({ beingId: "@some-being" });
  */
 export const createCaller = createCallerFactory(appRouter);
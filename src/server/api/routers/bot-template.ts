@@ -0,0 +1,92 @@
+import { z } from "zod/v4";
+import { services } from "~/domain/services";
+import { beingIdSchema } from "~/lib/types";
+import {
+	createTRPCRouter,
+	protectedProcedure,
+	publicProcedure,
+} from "~/server/api/trpc";
+import { activationPolicySchema } from "~/server/lib/bot-arbiter";
+import { toolRegistry } from "~/server/lib/bot-tools";
+
+const personaSchema = z.object({
+	botPrompt: z.string().min(1),
+	botModel: z.string().nullish(),
+	activation: activationPolicySchema.nullish(),
+	botTools: z.array(z.string()).optional(),
+});
+
+export const botTemplateRouter = createTRPCRouter({
+	/**
+	 * Lists every bot template with its current version, for the gallery.
+	 */
+	list: publicProcedure.query(async () => {
+		return services.botTemplate.listTemplates();
+	}),
+
+	/**
+	 * Fetches a template with its version history.
+	 */
+	getById: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ input }) => {
+			return services.botTemplate.getTemplate(input.id);
+		}),
+
+	/**
+	 * Lists the tools a template can enable.
+	 */
+	tools: publicProcedure.query(() => {
+		return toolRegistry.list();
+	}),
+
+	create: protectedProcedure
+		.input(
+			personaSchema.extend({
+				name: z.string().min(1).max(256),
+				description: z.string().nullish(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return services.botTemplate.createTemplate(input, ctx.auth);
+		}),
+
+	/**
+	 * Updates a template; persona changes create a new version.
+	 */
+	update: protectedProcedure
+		.input(
+			personaSchema.partial().extend({
+				id: z.string(),
+				name: z.string().min(1).max(256).optional(),
+				description: z.string().nullish(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return services.botTemplate.updateTemplate(input, ctx.auth);
+		}),
+
+	/**
+	 * Creates a bot in a space from the template's current version.
+	 */
+	instantiate: protectedProcedure
+		.input(
+			z.object({
+				templateId: z.string(),
+				spaceId: beingIdSchema,
+				name: z.string().max(256).optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return services.botTemplate.instantiate(input, ctx.auth);
+		}),
+
+	/**
+	 * Updates every bot created from the template to its current version.
+	 */
+	rollOut: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			return services.botTemplate.rollOut(input.id, ctx.auth);
+		}),
+});
@@ -1,22 +1,191 @@
 import { z } from "zod/v4";
 import { services } from "~/domain/services";
-import { beingIdSchema } from "~/lib/types";
+import { type BeingId, beingIdSchema, intentionIdSchema } from "~/lib/types";
 import {
 	createTRPCRouter,
 	protectedProcedure,
 	publicProcedure,
 } from "~/server/api/trpc";
 
+// ~3 MB of image data once base64-encoded
+const MAX_IMAGE_DATA_URL_LENGTH = 4_000_000;
+
+const imageAttachmentSchema = z.object({
+	src: z
+		.string()
+		.max(MAX_IMAGE_DATA_URL_LENGTH)
+		.refine(
+			(src) => src.startsWith("https://") || src.startsWith("data:image/"),
+			"Images must be https or data:image URLs",
+		),
+	mime: z.string().startsWith("image/"),
+	alt: z.string().max(256).optional(),
+});
+
+// Who is reading: signed-out visitors see only what everyone may see
+async function getViewer(beingId: BeingId | undefined) {
+	return beingId ? services.auth.getAuthContext(beingId) : null;
+}
+
 export const intentionRouter = createTRPCRouter({
-	getAllUtterancesInBeing: publicProcedure
-		.input(z.object({ beingId: beingIdSchema }))
-		.query(async ({ input }) => {
-			return services.intention.getIntentionsInLocation(input.beingId);
+	/**
+	 * Pages through a location's intentions, or one thread's replies, newest first, for infinite scroll.
+	 */
+	list: publicProcedure
+		.input(
+			z.object({
+				beingId: beingIdSchema,
+				limit: z.number().int().min(1).max(100).default(50),
+				cursor: intentionIdSchema.nullish(),
+				parentId: intentionIdSchema.optional(), // A thread's replies instead of the main stream
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			return services.intention.listIntentions(
+				{
+					locationId: input.beingId,
+					limit: input.limit,
+					cursor: input.cursor ?? undefined,
+					parentId: input.parentId,
+				},
+				await getViewer(ctx.session?.user?.beingId),
+			);
+		}),
+
+	/**
+	 * Fetches one intention, so sync events can patch it into loaded pages.
+	 */
+	get: publicProcedure
+		.input(z.object({ id: intentionIdSchema }))
+		.query(async ({ ctx, input }) => {
+			return services.intention.getVisibleIntention(
+				input.id,
+				await getViewer(ctx.session?.user?.beingId),
+			);
+		}),
+
+	/**
+	 * Pages through messages that mention you, newest first, across the spaces you can see.
+	 */
+	mentions: protectedProcedure
+		.input(
+			z.object({
+				limit: z.number().int().min(1).max(100).default(50),
+				cursor: intentionIdSchema.nullish(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			return services.mention.listMentions(
+				{ limit: input.limit, cursor: input.cursor ?? undefined },
+				ctx.auth,
+			);
 		}),
 
+	/**
+	 * Posts a chat message (`<@being-id>` tokens become mentions), optionally with image attachments or as a reply in a thread.
+	 */
 	createUtterance: protectedProcedure
-		.input(z.object({ content: z.string().min(1), beingId: beingIdSchema }))
+		.input(
+			z
+				.object({
+					content: z.string(),
+					beingId: beingIdSchema,
+					attachments: z.array(imageAttachmentSchema).max(4).optional(),
+					parentId: intentionIdSchema.optional(),
+				})
+				.refine(
+					(input) =>
+						input.content.trim().length > 0 ||
+						(input.attachments?.length ?? 0) > 0,
+					"A message needs text or an attachment",
+				),
+		)
 		.mutation(async ({ ctx, input }) => {
 			return services.intention.createUtterance(input, ctx.auth);
 		}),
+
+	/**
+	 * Replaces the text of one of your messages; superusers can edit any.
+	 */
+	edit: protectedProcedure
+		.input(z.object({ id: intentionIdSchema, content: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			return services.intention.editUtterance(
+				input.id,
+				input.content.trim(),
+				ctx.auth,
+			);
+		}),
+
+	/**
+	 * Removes one of your messages, leaving a placeholder; superusers can remove any.
+	 */
+	delete: protectedProcedure
+		.input(z.object({ id: intentionIdSchema }))
+		.mutation(async ({ ctx, input }) => {
+			return services.intention.deleteIntention(input.id, ctx.auth);
+		}),
+
+	/**
+	 * Lists the earlier versions of a message you could edit.
+	 */
+	revisions: protectedProcedure
+		.input(z.object({ id: intentionIdSchema }))
+		.query(async ({ ctx, input }) => {
+			return services.intention.getRevisions(input.id, ctx.auth);
+		}),
+
+	/**
+	 * Adds your emoji reaction to a message, or removes it if it's already there.
+	 */
+	react: protectedProcedure
+		.input(
+			z.object({
+				id: intentionIdSchema,
+				emoji: z
+					.string()
+					.max(32)
+					.regex(/^\p{Extended_Pictographic}/u, "Reactions must be emoji"),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return services.reaction.toggleReaction(
+				{ intentionId: input.id, emoji: input.emoji },
+				ctx.auth,
+			);
+		}),
+
+	/**
+	 * Stops an in-flight bot response, keeping what was streamed so far.
+	 */
+	cancel: protectedProcedure
+		.input(z.object({ id: intentionIdSchema }))
+		.mutation(async ({ ctx, input }) => {
+			return services.intention.cancelIntention(input.id, ctx.auth);
+		}),
+
+	/**
+	 * Re-runs a bot response; the previous attempt is kept as an alternate.
+	 */
+	regenerate: protectedProcedure
+		.input(z.object({ id: intentionIdSchema }))
+		.mutation(async ({ ctx, input }) => {
+			return services.intention.regenerateIntention(input.id, ctx.auth);
+		}),
+
+	/**
+	 * Finds utterances and documents similar in meaning to the query, in the space the caller is in.
+	 */
+	semanticSearch: protectedProcedure
+		.input(
+			z.object({
+				query: z.string().min(1).max(2000),
+				spaceId: beingIdSchema.optional(),
+				sourceTypes: z.array(z.enum(["intention", "being"])).optional(),
+				limit: z.number().int().min(1).max(50).default(10),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			return services.memory.semanticSearch(input, ctx.auth);
+		}),
 });
@@ -0,0 +1,20 @@
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { listModels } from "~/server/lib/models";
+
+export const modelsRouter = createTRPCRouter({
+	/**
+	 * Lists the models bots can use, from the server-side catalog cache.
+	 */
+	list: publicProcedure.query(async () => {
+		try {
+			return await listModels();
+		} catch (error) {
+			throw new TRPCError({
+				code: "SERVICE_UNAVAILABLE",
+				message: "The model catalog is currently unavailable.",
+				cause: error,
+			});
+		}
+	}),
+});
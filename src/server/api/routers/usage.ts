@@ -0,0 +1,21 @@
+import { z } from "zod/v4";
+import { services } from "~/domain/services";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+export const usageRouter = createTRPCRouter({
+	/**
+	 * Aggregates LLM token usage and estimated cost per bot, owner or space over a date range.
+	 * Non-superusers only see spend for bots they own.
+	 */
+	getSpend: protectedProcedure
+		.input(
+			z.object({
+				groupBy: z.enum(["bot", "owner", "space"]),
+				from: z.date(),
+				to: z.date(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			return services.usage.getSpend(input, ctx.auth);
+		}),
+});
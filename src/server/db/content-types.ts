@@ -6,3 +6,24 @@ export interface ContentDataIsland {
 	props?: Record<string, unknown>;
 	content?: ContentNode[];
 }
+
+/**
+ * Props of an image attachment island: `{ type: "image", props: { src, mime, alt? } }`.
+ * `src` is an https URL or a `data:image/...` URL.
+ */
+export interface ImageIslandProps {
+	src: string;
+	mime: string;
+	alt?: string;
+}
+
+export function isImageIsland(
+	node: ContentNode,
+): node is ContentDataIsland & { props: ImageIslandProps } {
+	return (
+		typeof node !== "string" &&
+		node.type === "image" &&
+		typeof node.props?.src === "string" &&
+		typeof node.props?.mime === "string"
+	);
+}
@@ -11,3 +11,6 @@ export const beingIdNullable = (name: string) =>
 
 export const intentionId = (name: string) =>
 	varchar(name, { length: 255 }).$type<IntentionId>();
+
+export const intentionIdNullable = (name: string) =>
+	varchar(name, { length: 255 }).$type<IntentionId | null>();
@@ -1,15 +1,28 @@
 import { relations, sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
 	index,
 	jsonb,
 	pgTableCreator,
 	primaryKey,
 	text,
 	timestamp,
+	uniqueIndex,
 	varchar,
+	vector,
 } from "drizzle-orm/pg-core";
 import type { AdapterAccount } from "next-auth/adapters";
-import { beingId, beingIdNullable, intentionId } from "./custom-columns";
+import type { Model } from "~/lib/types/llm";
+import { calendarBands } from "~/lib/types/summary";
+import type { ContentNode } from "~/server/db/content-types";
+import type { ActivationPolicy } from "~/server/lib/bot-arbiter";
+import { EMBEDDING_DIMENSIONS } from "~/server/lib/embeddings/types";
+import {
+	beingId,
+	beingIdNullable,
+	intentionId,
+	intentionIdNullable,
+} from "./custom-columns";
 
 /**
  * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
@@ -40,7 +53,8 @@ export const beings = createTable("beings", {
 	// Bot-specific fields
 	botModel: varchar("botModel", { length: 255 }), // AI model identifier for bots
 	botPrompt: text("botPrompt"), // System prompt for bots (can be very long)
-	llmApiKey: text("llmApiKey"), // Per-being API key for LLM services like OpenRouter
+	llmApiKey: text("llmApiKey"), // Per-being API key for LLM services, envelope-encrypted (see server/lib/secrets)
+	llmApiKeyLast4: varchar("llmApiKeyLast4", { length: 4 }), // Hint shown to clients in place of the key
 });
 
 // "Intention" entity table. Represents actions, like utterances (chat messages).
@@ -67,13 +81,276 @@ export const intentions = createTable(
 			enum: ["draft", "active", "paused", "complete", "cancelled", "failed"],
 		}).notNull(),
 		content: jsonb("content").notNull(), // The actual message content
+		metadata: jsonb("metadata"), // e.g. { triggeringIntentionId, alternates } for bot replies
+		parentId: intentionIdNullable("parentId").references(
+			(): AnyPgColumn => intentions.id,
+		), // The thread's first message, for replies; null in the main stream
+		editedAt: timestamp("editedAt", { withTimezone: true }), // Last edit by its owner or a moderator
+		deletedAt: timestamp("deletedAt", { withTimezone: true }), // Soft delete: content is cleared, the row stays as a placeholder
 	},
 	(t) => ({
 		ownerIdx: index("intention_owner_idx").on(t.ownerId),
 		locationIdx: index("intention_location_idx").on(t.locationId),
+		parentIdx: index("intention_parent_idx").on(t.parentId),
+		// Keyset pagination of a location's history, newest first
+		locationCreatedIdIdx: index("intention_location_created_id_idx").on(
+			t.locationId,
+			t.createdAt,
+			t.id,
+		),
+	}),
+);
+
+// Earlier content of edited or deleted intentions, one row per change
+export const intentionRevisions = createTable(
+	"intention_revisions",
+	(d) => ({
+		id: d
+			.varchar({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		intentionId: intentionId("intentionId")
+			.notNull()
+			.references(() => intentions.id, { onDelete: "cascade" }),
+		content: jsonb("content").$type<ContentNode[]>().notNull(), // The content before the change
+		action: varchar("action", {
+			length: 16,
+			enum: ["edit", "delete"],
+		}).notNull(),
+		actorId: beingId("actorId")
+			.notNull()
+			.references(() => beings.id), // Who made the change
+		createdAt: timestamp("createdAt", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		index("intention_revisions_intention_idx").on(t.intentionId, t.createdAt),
+	],
+);
+
+// Emoji reactions: one row per (intention, being, emoji), toggled on and off
+export const reactions = createTable(
+	"reactions",
+	{
+		intentionId: intentionId("intentionId")
+			.notNull()
+			.references(() => intentions.id, { onDelete: "cascade" }),
+		beingId: beingId("beingId")
+			.notNull()
+			.references(() => beings.id),
+		emoji: varchar("emoji", { length: 32 }).notNull(),
+		createdAt: timestamp("createdAt", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(t) => [primaryKey({ columns: [t.intentionId, t.beingId, t.emoji] })],
+);
+
+// Mention index: one row per (intention, mentioned being), rebuilt when the message changes.
+// createdAt is the message's, so "messages that mention me" reads newest first across spaces.
+export const mentions = createTable(
+	"mentions",
+	{
+		intentionId: intentionId("intentionId")
+			.notNull()
+			.references(() => intentions.id, { onDelete: "cascade" }),
+		beingId: beingId("beingId")
+			.notNull()
+			.references(() => beings.id), // Who was mentioned
+		locationId: beingId("locationId")
+			.notNull()
+			.references(() => beings.id),
+		createdAt: timestamp("createdAt", { withTimezone: true }).notNull(),
+	},
+	(t) => [
+		primaryKey({ columns: [t.intentionId, t.beingId] }),
+		index("mentions_being_created_idx").on(
+			t.beingId,
+			t.createdAt,
+			t.intentionId,
+		),
+	],
+);
+
+// LLM usage ledger. One row per bot response attempt, for spend reporting and budgets.
+export const llmUsage = createTable(
+	"llm_usage",
+	(d) => ({
+		id: d
+			.varchar({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		intentionId: intentionId("intentionId")
+			.notNull()
+			.references(() => intentions.id),
+		botId: beingId("botId")
+			.notNull()
+			.references(() => beings.id),
+		ownerId: beingIdNullable("ownerId").references(() => beings.id), // The bot's owner at the time
+		spaceId: beingId("spaceId")
+			.notNull()
+			.references(() => beings.id),
+		model: varchar("model", { length: 255 }).notNull(),
+		promptTokens: d.integer().notNull(),
+		completionTokens: d.integer().notNull(),
+		cost: d.doublePrecision().notNull(), // Estimated USD from the model's pricing
+		createdAt: timestamp("createdAt", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		index("llm_usage_bot_created_idx").on(t.botId, t.createdAt),
+		index("llm_usage_owner_created_idx").on(t.ownerId, t.createdAt),
+		index("llm_usage_space_created_idx").on(t.spaceId, t.createdAt),
+	],
+);
+
+// Summaries of a space's history, one row per message window per calendar band
+export const summaryChunks = createTable(
+	"summary_chunks",
+	(d) => ({
+		id: d
+			.varchar({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		spaceId: beingId("spaceId")
+			.notNull()
+			.references(() => beings.id),
+		band: varchar("band", { length: 16, enum: calendarBands }).notNull(),
+		windowIndex: d.integer().notNull(), // Time slot of the window: send time / the band's window length
+		firstIntentionId: intentionId("firstIntentionId").notNull(),
+		lastIntentionId: intentionId("lastIntentionId").notNull(),
+		rangeStart: timestamp("rangeStart", { withTimezone: true }).notNull(),
+		rangeEnd: timestamp("rangeEnd", { withTimezone: true }).notNull(),
+		messageCount: d.integer().notNull(),
+		hash: varchar("hash", { length: 64 }).notNull(), // Hash of the window's messages
+		text: text("text").notNull(),
+		tokenCount: d.integer().notNull(),
+		createdAt: timestamp("createdAt", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		uniqueIndex("summary_chunks_window_idx").on(
+			t.spaceId,
+			t.band,
+			t.windowIndex,
+		),
+		index("summary_chunks_space_range_idx").on(t.spaceId, t.rangeStart),
+	],
+);
+
+// Vector memory: embedded chunks of utterances and document beings (pgvector)
+export const embeddings = createTable(
+	"embeddings",
+	(d) => ({
+		id: d
+			.varchar({ length: 255 })
+			.notNull()
+			.primaryKey()
+			.$defaultFn(() => crypto.randomUUID()),
+		sourceType: varchar("sourceType", {
+			length: 16,
+			enum: ["intention", "being"],
+		}).notNull(),
+		sourceId: d.varchar({ length: 255 }).notNull(), // Intention or being ID
+		chunkIndex: d.integer().notNull(),
+		spaceId: beingIdNullable("spaceId"), // Where the source lives; null for unplaced documents
+		ownerId: beingIdNullable("ownerId"),
+		embedder: d.varchar({ length: 128 }).notNull(), // Vectors are only comparable within one embedder
+		contentHash: varchar("contentHash", { length: 64 }).notNull(), // Hash of the whole source text
+		text: text("text").notNull(),
+		embedding: vector("embedding", {
+			dimensions: EMBEDDING_DIMENSIONS,
+		}).notNull(),
+		sourceCreatedAt: timestamp("sourceCreatedAt", {
+			withTimezone: true,
+		}).notNull(),
+		createdAt: timestamp("createdAt", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
 	}),
+	(t) => [
+		uniqueIndex("embeddings_source_chunk_idx").on(
+			t.sourceType,
+			t.sourceId,
+			t.chunkIndex,
+		),
+		index("embeddings_space_idx").on(t.spaceId),
+		index("embeddings_vector_idx").using(
+			"hnsw",
+			t.embedding.op("vector_cosine_ops"),
+		),
+	],
 );
 
+// Reusable bot personas; bots created from one record it in `properties.template`
+export const botTemplates = createTable("bot_templates", (d) => ({
+	id: d
+		.varchar({ length: 255 })
+		.notNull()
+		.primaryKey()
+		.$defaultFn(() => crypto.randomUUID()),
+	name: varchar("name", { length: 256 }).notNull(),
+	description: text("description"),
+	ownerId: beingId("ownerId")
+		.notNull()
+		.references(() => beings.id),
+	currentVersion: d.integer().notNull().default(1),
+	createdAt: timestamp("createdAt", { withTimezone: true })
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+	modifiedAt: timestamp("modifiedAt", { withTimezone: true })
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+}));
+
+// Every persona change is a new immutable version of its template
+export const botTemplateVersions = createTable(
+	"bot_template_versions",
+	(d) => ({
+		templateId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => botTemplates.id, { onDelete: "cascade" }),
+		version: d.integer().notNull(),
+		botPrompt: text("botPrompt").notNull(),
+		botModel: varchar("botModel", { length: 255 }),
+		activation: jsonb("activation").$type<ActivationPolicy>(),
+		botTools: jsonb("botTools").$type<string[]>().notNull().default([]),
+		createdAt: timestamp("createdAt", { withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [primaryKey({ columns: [t.templateId, t.version] })],
+);
+
+// Cached copy of a provider's model catalog, refreshed after a TTL
+export const modelCatalog = createTable("model_catalog", (d) => ({
+	source: d.varchar({ length: 64 }).notNull().primaryKey(), // e.g. "openrouter"
+	models: jsonb("models").$type<Model[]>().notNull(),
+	fetchedAt: timestamp("fetchedAt", { withTimezone: true }).notNull(),
+}));
+
+// Token buckets for bot activation rate limits, shared by every server instance
+export const rateLimitBuckets = createTable("rate_limit_buckets", (d) => ({
+	key: d.varchar({ length: 255 }).notNull().primaryKey(), // e.g. "bot:@helper:@lobby" or "user:@lobby:@alice"
+	tokens: d.doublePrecision().notNull(), // As of updatedAt; refilled lazily on the next take
+	updatedAt: timestamp("updatedAt", { withTimezone: true }).notNull(),
+	notifiedAt: timestamp("notifiedAt", { withTimezone: true }), // Last throttle notice posted
+}));
+
+// Last run of each schedule and silence trigger, so only one server instance fires it
+export const botTriggerRuns = createTable("bot_trigger_runs", (d) => ({
+	key: d.varchar({ length: 255 }).notNull().primaryKey(), // e.g. "@greeter:0" (bot and trigger index)
+	marker: d.varchar({ length: 255 }).notNull(), // The cron minute or silenced message it last fired for
+	firedAt: timestamp("firedAt", { withTimezone: true }).notNull(),
+}));
+
 // NextAuth.js User table, now linked to a Being
 export const users = createTable("users", (d) => ({
 	id: d
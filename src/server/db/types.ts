@@ -32,7 +32,7 @@ const contentDataIslandSchema: z.ZodType<ContentDataIsland> = z.object({
 	content: z.lazy(() => z.array(contentNodeSchema)).optional(),
 });
 
-const contentNodeSchema = z.union([z.string(), contentDataIslandSchema]);
+export const contentNodeSchema = z.union([z.string(), contentDataIslandSchema]);
 
 // --- Main Table Schemas ---
 
@@ -42,44 +42,55 @@ const baseInsertBeingSchema = createInsertSchema(schema.beings);
 const baseSelectIntentionSchema = createSelectSchema(schema.intentions);
 const baseInsertIntentionSchema = createInsertSchema(schema.intentions);
 
-// Beings - extend base schemas with proper JSONB column types and ID types
-export const selectBeingSchema = baseSelectBeingSchema.extend({
-	id: beingIdSchema,
-	ownerId: beingIdSchema.nullable(),
-	locationId: beingIdSchema.nullable(),
-	extIds: z.array(extIdSchema).nullable(),
-	idHistory: z.array(z.string()).nullable(),
-	metadata: z.record(z.string(), z.unknown()).nullable(),
-	properties: z.record(z.string(), z.unknown()).nullable(),
-	content: z.array(contentNodeSchema).nullable(),
-	botModel: z.string().nullable(),
-	botPrompt: z.string().nullable(),
-	llmApiKey: z.string().nullable(),
-});
-
-export const insertBeingSchema = baseInsertBeingSchema.extend({
-	id: beingIdSchema,
-	ownerId: beingIdSchema.nullable().optional(),
-	locationId: beingIdSchema.nullable().optional(),
-	extIds: z.array(extIdSchema).optional(),
-	idHistory: z.array(z.string()).optional(),
-	metadata: z.record(z.string(), z.unknown()).optional(),
-	properties: z.record(z.string(), z.unknown()).optional(),
-	content: z.array(contentNodeSchema).optional(),
-	botModel: z.string().optional(),
-	botPrompt: z.string().optional(),
-	llmApiKey: z.string().optional(),
-});
+// Beings - extend base schemas with proper JSONB column types and ID types.
+// The (encrypted) llmApiKey is never read back out: clients only get llmApiKeyLast4.
+export const selectBeingSchema = baseSelectBeingSchema
+	.omit({ llmApiKey: true })
+	.extend({
+		id: beingIdSchema,
+		ownerId: beingIdSchema.nullable(),
+		locationId: beingIdSchema.nullable(),
+		extIds: z.array(extIdSchema).nullable(),
+		idHistory: z.array(z.string()).nullable(),
+		metadata: z.record(z.string(), z.unknown()).nullable(),
+		properties: z.record(z.string(), z.unknown()).nullable(),
+		content: z.array(contentNodeSchema).nullable(),
+		botModel: z.string().nullable(),
+		botPrompt: z.string().nullable(),
+		llmApiKeyLast4: z.string().nullable(),
+	});
+
+// llmApiKey is write-only: a non-empty string sets it, null clears it, and
+// undefined or "" leaves the stored key unchanged.
+export const insertBeingSchema = baseInsertBeingSchema
+	.omit({ llmApiKeyLast4: true })
+	.extend({
+		id: beingIdSchema,
+		ownerId: beingIdSchema.nullable().optional(),
+		locationId: beingIdSchema.nullable().optional(),
+		extIds: z.array(extIdSchema).optional(),
+		idHistory: z.array(z.string()).optional(),
+		metadata: z.record(z.string(), z.unknown()).optional(),
+		properties: z.record(z.string(), z.unknown()).optional(),
+		content: z.array(contentNodeSchema).optional(),
+		botModel: z.string().optional(),
+		botPrompt: z.string().optional(),
+		llmApiKey: z.string().nullable().optional(),
+	});
 
 // Intentions - extend base schemas with proper JSONB column types and ID types
 export const selectIntentionSchema = baseSelectIntentionSchema.extend({
 	id: intentionIdSchema,
 	content: z.array(contentNodeSchema), // This field is non-nullable
+	metadata: z.record(z.string(), z.unknown()).nullable(),
+	parentId: intentionIdSchema.nullable(),
 });
 
 export const insertIntentionSchema = baseInsertIntentionSchema.extend({
 	id: intentionIdSchema,
 	content: z.array(contentNodeSchema),
+	metadata: z.record(z.string(), z.unknown()).optional(),
+	parentId: intentionIdSchema.nullable().optional(),
 });
 
 // Users - extend to properly type beingId
@@ -104,3 +115,9 @@ export type SelectUser = z.infer<typeof selectUserSchema>;
 export type InsertBeing = z.infer<typeof insertBeingSchema>;
 export type InsertIntention = z.infer<typeof insertIntentionSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+
+export type SummaryChunk = typeof schema.summaryChunks.$inferSelect;
+export type Embedding = typeof schema.embeddings.$inferSelect;
+export type BotTemplate = typeof schema.botTemplates.$inferSelect;
+export type BotTemplateVersion = typeof schema.botTemplateVersions.$inferSelect;
+export type IntentionRevision = typeof schema.intentionRevisions.$inferSelect;
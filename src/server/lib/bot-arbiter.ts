@@ -0,0 +1,104 @@
+import { z } from "zod/v4";
+import { isMentionIsland } from "~/lib/types/mentions";
+import type { ContentNode } from "~/server/db/content-types";
+import type { Being, Intention } from "~/server/db/types";
+import { contentToText } from "~/server/lib/bot-context";
+
+/**
+ * When a bot wakes up, stored on the bot in `properties.activation`
+ *
+ * - always: reply to every message (the default)
+ * - mention: reply only when @-mentioned by id or name
+ * - fallback: reply only when no other bot is replying
+ * - probabilistic: reply with the given probability
+ */
+export const activationPolicySchema = z.discriminatedUnion("mode", [
+	z.object({ mode: z.literal("always") }),
+	z.object({ mode: z.literal("mention") }),
+	z.object({ mode: z.literal("fallback") }),
+	z.object({
+		mode: z.literal("probabilistic"),
+		probability: z.number().min(0).max(1),
+	}),
+]);
+
+export type ActivationPolicy = z.infer<typeof activationPolicySchema>;
+
+// How many bot-to-bot replies may follow a human message, unless the space says otherwise
+export const DEFAULT_BOT_REPLY_DEPTH = 0;
+
+export function getActivationPolicy(bot: Being): ActivationPolicy {
+	const result = activationPolicySchema.safeParse(bot.properties?.activation);
+	return result.success ? result.data : { mode: "always" };
+}
+
+/**
+ * Maximum bot-to-bot reply depth for a space, from `properties.botReplyDepth`
+ */
+export function getBotReplyDepth(space: Being | null): number {
+	const depth = space?.properties?.botReplyDepth;
+	return typeof depth === "number" && depth >= 0
+		? Math.floor(depth)
+		: DEFAULT_BOT_REPLY_DEPTH;
+}
+
+/**
+ * Whether the intention @-mentions the bot: a mention island, or its id or name in the text
+ */
+export function mentionsBot(intention: Intention, bot: Being): boolean {
+	const content = intention.content as ContentNode[];
+	if (
+		content.some(
+			(node) => isMentionIsland(node) && node.props.beingId === bot.id,
+		)
+	) {
+		return true;
+	}
+	const text = contentToText(content).toLowerCase();
+	return (
+		text.includes(bot.id.toLowerCase()) ||
+		text.includes(`@${bot.name.toLowerCase()}`)
+	);
+}
+
+/**
+ * Decide which bots in a space reply to an intention.
+ *
+ * The speaker never replies to itself. `responders` are the bots whose direct
+ * policy (always, mention, probabilistic) has them speak. If none of them
+ * can, the caller picks a single bot from `fallbacks`, in name order: the
+ * first one that is able to answer, so the message still gets a reply.
+ */
+export function selectRespondingBots(
+	bots: Being[],
+	trigger: Intention,
+	random: () => number = Math.random,
+): { responders: Being[]; fallbacks: Being[] } {
+	const candidates = bots.filter((bot) => bot.id !== trigger.ownerId);
+
+	const responders: Being[] = [];
+	const fallbacks: Being[] = [];
+
+	for (const bot of candidates) {
+		const policy = getActivationPolicy(bot);
+		switch (policy.mode) {
+			case "always":
+				responders.push(bot);
+				break;
+			case "mention":
+				if (mentionsBot(trigger, bot)) responders.push(bot);
+				break;
+			case "probabilistic":
+				if (random() < policy.probability) responders.push(bot);
+				break;
+			case "fallback":
+				fallbacks.push(bot);
+				break;
+		}
+	}
+
+	return {
+		responders,
+		fallbacks: fallbacks.sort((a, b) => a.name.localeCompare(b.name)),
+	};
+}
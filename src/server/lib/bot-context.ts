@@ -0,0 +1,541 @@
+import { and, desc, eq, inArray, isNull, lte, or } from "drizzle-orm";
+import { z } from "zod/v4";
+import { AuthService } from "~/domain/auth-service";
+import { type MemoryHit, MemoryService } from "~/domain/memory-service";
+import { ReactionService } from "~/domain/reaction-service";
+import { SummaryService } from "~/domain/summary-service";
+import {
+	parseStructuredIsland,
+	structuredIslandToText,
+} from "~/lib/types/islands";
+import { isMentionIsland } from "~/lib/types/mentions";
+import { calendarBands } from "~/lib/types/summary";
+import type { DrizzleDB } from "~/server/db";
+import {
+	type ContentNode,
+	type ImageIslandProps,
+	isImageIsland,
+} from "~/server/db/content-types";
+import { beings, intentions } from "~/server/db/schema";
+import { selectIntentionSchema } from "~/server/db/types";
+import type {
+	Being,
+	BeingId,
+	Intention,
+	SummaryChunk,
+} from "~/server/db/types";
+import { isThinkingIsland } from "~/server/lib/bot-thinking";
+import type { ChatContentPart, ChatMessage } from "~/server/lib/llm";
+import { logger } from "~/server/lib/logger";
+import { renderBotPrompt } from "~/server/lib/prompt-variables";
+
+const contextLogger = logger.child({ name: "BotContext" });
+
+// Upper bound on how far back we look before trimming to the token budget
+const MAX_HISTORY_INTENTIONS = 200;
+
+// Fraction of the context window kept free for the model's reply
+const COMPLETION_RESERVE_RATIO = 0.25;
+const MIN_COMPLETION_RESERVE = 512;
+
+// Share of the prompt budget given to summaries when the history doesn't fit verbatim
+const SUMMARY_BUDGET_RATIO = 0.3;
+
+// Share of the prompt budget given to retrieved memories, for bots that opt in
+const RETRIEVAL_BUDGET_RATIO = 0.15;
+
+// Budgeting guess for one image part; providers bill images by size and detail
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+// Only the newest images go to vision models as pixels; older ones stay placeholders
+const MAX_PROMPT_IMAGES = 4;
+
+// The bot's newest messages whose reactions are shown to it, and how much of each is quoted
+const MAX_REACTION_FEEDBACK_MESSAGES = 10;
+const REACTION_SNIPPET_LENGTH = 80;
+
+/**
+ * Opt-in retrieval, stored on the bot in `properties.retrieval`: before each
+ * reply, look up the `topK` stored utterances and documents most similar to
+ * the triggering message and add them to the prompt.
+ *
+ * - scope "space" (default) searches the bot's space; "visible" also searches the unplaced documents the bot owns
+ * - minScore drops weak matches (cosine similarity, 0-1)
+ */
+export const botRetrievalSchema = z.object({
+	enabled: z.boolean().default(true),
+	topK: z.number().int().min(1).max(20).default(5),
+	scope: z.enum(["space", "visible"]).default("space"),
+	minScore: z.number().min(0).max(1).default(0),
+});
+
+export type BotRetrieval = z.infer<typeof botRetrievalSchema>;
+
+/**
+ * A bot's retrieval settings, or null when it hasn't opted in (or the settings are malformed)
+ */
+export function getBotRetrieval(bot: Being): BotRetrieval | null {
+	const raw = bot.properties?.retrieval;
+	if (raw === undefined || raw === null) return null;
+	const result = botRetrievalSchema.safeParse(raw);
+	return result.success && result.data.enabled ? result.data : null;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) - good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Token estimate for a chat message, counting each image part at a flat rate
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+	if (typeof message.content === "string") {
+		return estimateTokens(message.content);
+	}
+	return message.content.reduce(
+		(sum, part) =>
+			sum +
+			(part.type === "text" ? estimateTokens(part.text) : IMAGE_TOKEN_ESTIMATE),
+		0,
+	);
+}
+
+/**
+ * Flatten a ContentNode tree into plain text for the model. Images become a
+ * placeholder, so models without vision still know something was attached.
+ */
+export function contentToText(nodes: ContentNode[]): string {
+	return nodes
+		.map((node) => {
+			if (typeof node === "string") return node;
+			if (isThinkingIsland(node)) return ""; // Reasoning never feeds prompts, summaries or memory
+			if (isMentionIsland(node)) return `@${node.props.name}`;
+			if (isImageIsland(node)) {
+				return `[image: ${node.props.alt || node.props.mime}]`;
+			}
+			const structured = parseStructuredIsland(node);
+			if (structured) return `\n${structuredIslandToText(structured)}\n`;
+			if (node.content) return contentToText(node.content);
+			return `[${node.type}]`;
+		})
+		.join("");
+}
+
+/**
+ * Image attachments anywhere in a ContentNode tree, in order
+ */
+export function findImages(nodes: ContentNode[]): ImageIslandProps[] {
+	return nodes.flatMap((node) => {
+		if (typeof node === "string") return [];
+		if (isImageIsland(node)) return [node.props];
+		return node.content ? findImages(node.content) : [];
+	});
+}
+
+/**
+ * Load earlier utterances, oldest first, up to and including the trigger.
+ * A trigger in a thread sees the thread (its first message and the replies);
+ * otherwise the space's main stream.
+ */
+async function loadHistory(
+	db: DrizzleDB,
+	spaceId: BeingId,
+	triggeringIntention: Intention,
+): Promise<Intention[]> {
+	const history = await db.query.intentions.findMany({
+		where: and(
+			eq(intentions.locationId, spaceId),
+			triggeringIntention.parentId
+				? or(
+						eq(intentions.id, triggeringIntention.parentId),
+						eq(intentions.parentId, triggeringIntention.parentId),
+					)
+				: isNull(intentions.parentId),
+			eq(intentions.type, "utterance"),
+			eq(intentions.state, "complete"),
+			isNull(intentions.deletedAt),
+			lte(intentions.createdAt, triggeringIntention.createdAt),
+		),
+		orderBy: [desc(intentions.createdAt)],
+		limit: MAX_HISTORY_INTENTIONS,
+	});
+
+	const parsed = history.map((intention) =>
+		selectIntentionSchema.parse(intention),
+	);
+
+	// The trigger is always part of the conversation, even if it isn't "complete" yet
+	if (!parsed.some((intention) => intention.id === triggeringIntention.id)) {
+		parsed.unshift(triggeringIntention);
+	}
+
+	return parsed.reverse();
+}
+
+/**
+ * Build the message list for a bot reply: system prompt plus as much of the
+ * space's conversation as fits in the model's context window.
+ *
+ * Messages owned by the bot become `assistant` turns; everyone else's become
+ * `user` turns prefixed with the speaker's name. Oldest messages are dropped
+ * first until the estimated prompt fits; when that happens, calendar-band
+ * summaries of the dropped history are included instead.
+ *
+ * Reactions others left on the bot's own messages in the prompt are listed
+ * in a system message, as feedback on how those replies landed.
+ *
+ * A `transcript` replays recorded messages (ending with the trigger) in place
+ * of the space's stored history; summaries, memories and reactions are left
+ * out then, since they describe the live space.
+ */
+export async function buildConversationContext(
+	db: DrizzleDB,
+	bot: Being,
+	spaceId: BeingId,
+	triggeringIntention: Intention,
+	contextLength: number,
+	options: {
+		supportsVision?: boolean;
+		transcript?: { history: Intention[]; speakerNames: Map<string, string> };
+	} = {},
+): Promise<ChatMessage[]> {
+	const { transcript } = options;
+	const history =
+		transcript?.history ??
+		(await loadHistory(db, spaceId, triggeringIntention));
+
+	// Resolve speaker names in one query
+	const ownerIds = [
+		...new Set(history.map((intention) => intention.ownerId as BeingId)),
+	];
+	const speakers =
+		transcript || ownerIds.length === 0
+			? []
+			: await db
+					.select({ id: beings.id, name: beings.name })
+					.from(beings)
+					.where(inArray(beings.id, ownerIds));
+	const speakerNames: Map<string, string> =
+		transcript?.speakerNames ??
+		new Map(speakers.map((speaker) => [speaker.id, speaker.name]));
+
+	// Walk newest first so the image allowance goes to the most recent attachments
+	let imagesLeft = options.supportsVision ? MAX_PROMPT_IMAGES : 0;
+	const conversation: ChatMessage[] = [...history]
+		.reverse()
+		.map((intention): ChatMessage => {
+			const content = intention.content as ContentNode[];
+			const text = contentToText(content);
+			// Trigger runs are instructions to the bot, even though the bot owns them
+			if (intention.type === "bot-trigger") {
+				return { role: "user", content: `[Trigger] ${text}` };
+			}
+			if (intention.ownerId === bot.id) {
+				return { role: "assistant", content: text };
+			}
+			const speakerName =
+				speakerNames.get(intention.ownerId) ?? intention.ownerId;
+			const line = `${speakerName}: ${text}`;
+
+			const images = findImages(content).slice(0, imagesLeft);
+			if (images.length === 0) return { role: "user", content: line };
+			imagesLeft -= images.length;
+			return {
+				role: "user",
+				content: [
+					{ type: "text", text: line },
+					...images.map(
+						(image): ChatContentPart => ({
+							type: "image_url",
+							image_url: { url: image.src },
+						}),
+					),
+				],
+			};
+		})
+		.reverse();
+
+	const botPrompt = bot.botPrompt
+		? await renderBotPrompt(bot.botPrompt, {
+				db,
+				bot,
+				spaceId,
+				speakerId: triggeringIntention.ownerId as BeingId,
+			})
+		: "";
+	const systemMessages: ChatMessage[] = botPrompt
+		? [{ role: "system", content: botPrompt }]
+		: [];
+
+	const completionReserve = Math.max(
+		MIN_COMPLETION_RESERVE,
+		Math.floor(contextLength * COMPLETION_RESERVE_RATIO),
+	);
+	const promptBudget =
+		contextLength -
+		completionReserve -
+		systemMessages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+	const retrieval = transcript ? null : getBotRetrieval(bot);
+	const retrievalBudget = retrieval
+		? Math.floor(promptBudget * RETRIEVAL_BUDGET_RATIO)
+		: 0;
+	const historyBudget = promptBudget - retrievalBudget;
+
+	let kept = keepNewest(conversation, historyBudget);
+	const truncated =
+		kept.length < conversation.length ||
+		history.length >= MAX_HISTORY_INTENTIONS;
+
+	// Older history doesn't fit verbatim: give part of the budget to calendar-band summaries of it
+	let summaryMessages: ChatMessage[] = [];
+	if (truncated && !transcript) {
+		const summaryBudget = Math.floor(historyBudget * SUMMARY_BUDGET_RATIO);
+		kept = keepNewest(conversation, historyBudget - summaryBudget);
+		const oldestKept = history[history.length - kept.length];
+		const summaries = oldestKept
+			? await selectSummaries(db, spaceId, oldestKept.createdAt, summaryBudget)
+			: [];
+		if (summaries.length > 0) {
+			summaryMessages = [
+				{
+					role: "system",
+					content: `Summary of earlier conversation in this space:\n${summaries.map((chunk) => chunk.text).join("\n")}`,
+				},
+			];
+		}
+	}
+
+	const memoryMessages = retrieval
+		? await recallMemories(db, bot, spaceId, triggeringIntention, {
+				retrieval,
+				budget: retrievalBudget,
+				// Messages already in the prompt verbatim don't need recalling
+				excludeIds: history
+					.slice(history.length - kept.length)
+					.map((intention) => intention.id),
+			})
+		: [];
+
+	const reactionMessages = transcript
+		? []
+		: await describeReactions(
+				db,
+				bot,
+				history.slice(history.length - kept.length),
+				speakerNames,
+			);
+
+	return [
+		...systemMessages,
+		...summaryMessages,
+		...memoryMessages,
+		...reactionMessages,
+		...kept,
+	];
+}
+
+/**
+ * Reactions from others on the bot's newest messages in the prompt, as a
+ * system message, e.g. `"Sure, here's the plan…": 👍 Alice, Bob`
+ */
+async function describeReactions(
+	db: DrizzleDB,
+	bot: Being,
+	keptHistory: Intention[],
+	speakerNames: Map<string, string>,
+): Promise<ChatMessage[]> {
+	const own = keptHistory
+		.filter(
+			(intention) =>
+				intention.ownerId === bot.id && intention.type === "utterance",
+		)
+		.slice(-MAX_REACTION_FEEDBACK_MESSAGES);
+	if (own.length === 0) return [];
+
+	const reactions = await new ReactionService(db).getReactions(
+		own.map((intention) => intention.id),
+	);
+
+	// Reactors who haven't spoken in the prompt still need names
+	const unnamed = [
+		...new Set(
+			Object.values(reactions)
+				.flat()
+				.flatMap((reaction) => reaction.beingIds)
+				.filter((id) => id !== bot.id && !speakerNames.has(id)),
+		),
+	];
+	const reactors =
+		unnamed.length > 0
+			? await db
+					.select({ id: beings.id, name: beings.name })
+					.from(beings)
+					.where(inArray(beings.id, unnamed))
+			: [];
+	const names = new Map([
+		...speakerNames,
+		...reactors.map((reactor): [string, string] => [reactor.id, reactor.name]),
+	]);
+
+	const lines = own.flatMap((intention) => {
+		const summary = (reactions[intention.id] ?? [])
+			.map(({ emoji, beingIds }) => {
+				const others = beingIds.filter((id) => id !== bot.id);
+				return others.length > 0
+					? `${emoji} ${others.map((id) => names.get(id) ?? id).join(", ")}`
+					: null;
+			})
+			.filter((entry) => entry !== null);
+		if (summary.length === 0) return [];
+
+		const text = contentToText(intention.content as ContentNode[])
+			.replace(/\s+/g, " ")
+			.trim();
+		const snippet =
+			text.length > REACTION_SNIPPET_LENGTH
+				? `${text.slice(0, REACTION_SNIPPET_LENGTH)}…`
+				: text;
+		return [`- "${snippet}": ${summary.join("; ")}`];
+	});
+	if (lines.length === 0) return [];
+
+	return [
+		{
+			role: "system",
+			content: `Reactions to your recent messages:\n${lines.join("\n")}`,
+		},
+	];
+}
+
+/**
+ * Look up stored utterances and documents similar to the trigger, as a system
+ * message that fits the budget. Failures only cost the bot its memories.
+ */
+async function recallMemories(
+	db: DrizzleDB,
+	bot: Being,
+	spaceId: BeingId,
+	triggeringIntention: Intention,
+	options: { retrieval: BotRetrieval; budget: number; excludeIds: string[] },
+): Promise<ChatMessage[]> {
+	const query = contentToText(triggeringIntention.content as ContentNode[]);
+	if (!query.trim()) return [];
+
+	let hits: MemoryHit[];
+	try {
+		const auth = await new AuthService(db).getAuthContext(bot.id);
+		hits = await new MemoryService(db).semanticSearch(
+			{
+				query,
+				spaceId: options.retrieval.scope === "space" ? spaceId : undefined,
+				limit: options.retrieval.topK,
+				excludeSourceIds: options.excludeIds,
+			},
+			auth,
+		);
+	} catch (error) {
+		contextLogger.warn(
+			{ error, botId: bot.id, spaceId },
+			"Memory retrieval failed, replying without it",
+		);
+		return [];
+	}
+
+	const relevant = hits.filter(
+		(hit) => hit.score >= options.retrieval.minScore,
+	);
+	if (relevant.length === 0) return [];
+
+	const ownerIds = [
+		...new Set(
+			relevant.flatMap((hit) =>
+				hit.sourceType === "intention" && hit.ownerId ? [hit.ownerId] : [],
+			),
+		),
+	];
+	const speakers =
+		ownerIds.length > 0
+			? await db
+					.select({ id: beings.id, name: beings.name })
+					.from(beings)
+					.where(inArray(beings.id, ownerIds))
+			: [];
+	const names = new Map(speakers.map((speaker) => [speaker.id, speaker.name]));
+
+	const lines: string[] = [];
+	let remaining = options.budget;
+	for (const hit of relevant) {
+		const date = hit.sourceCreatedAt.toISOString().slice(0, 10);
+		const line =
+			hit.sourceType === "being"
+				? `- [document ${hit.sourceId}] ${hit.text}`
+				: `- [${date}${hit.spaceId === spaceId ? "" : ` in ${hit.spaceId}`}] ${
+						hit.ownerId === bot.id
+							? "You"
+							: (names.get(hit.ownerId as BeingId) ?? hit.ownerId)
+					}: ${hit.text}`;
+		const cost = estimateTokens(line);
+		if (cost > remaining) continue;
+		lines.push(line);
+		remaining -= cost;
+	}
+	if (lines.length === 0) return [];
+
+	return [
+		{
+			role: "system",
+			content: `Possibly relevant earlier messages and documents (retrieved by similarity to the latest message):\n${lines.join("\n")}`,
+		},
+	];
+}
+
+/**
+ * Walk newest to oldest, keeping messages while they fit; always keep the newest (the trigger)
+ */
+function keepNewest(
+	conversation: ChatMessage[],
+	budget: number,
+): ChatMessage[] {
+	let remaining = budget;
+	const kept: ChatMessage[] = [];
+	for (let i = conversation.length - 1; i >= 0; i--) {
+		const message = conversation[i];
+		if (!message) continue;
+		const cost = estimateMessageTokens(message);
+		if (cost > remaining && kept.length > 0) break;
+		kept.unshift(message);
+		remaining -= cost;
+	}
+	return kept;
+}
+
+/**
+ * Summaries of everything before `before`, widening the band (lastHour ⇒ allTime)
+ * for as long as the chunks still fit the budget
+ */
+async function selectSummaries(
+	db: DrizzleDB,
+	spaceId: BeingId,
+	before: Date,
+	budget: number,
+): Promise<SummaryChunk[]> {
+	const chunks = (
+		await new SummaryService(db).getSummaryChunks(spaceId, "allTime")
+	).filter((chunk) => chunk.rangeEnd < before);
+
+	let selected: SummaryChunk[] = [];
+	for (const [i, band] of calendarBands.entries()) {
+		const candidate = chunks.filter((chunk) =>
+			calendarBands.slice(0, i + 1).includes(chunk.band),
+		);
+		const tokens = candidate.reduce((sum, chunk) => sum + chunk.tokenCount, 0);
+		if (tokens > budget) break;
+		selected = candidate;
+		if (band === "allTime") break;
+	}
+	return selected;
+}
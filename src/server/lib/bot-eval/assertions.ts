@@ -0,0 +1,134 @@
+import { validateJsonSchema } from "./json-schema";
+import type { EvalAssertion } from "./suite";
+
+export interface AssertionResult {
+	assertion: EvalAssertion;
+	passed: boolean;
+	message: string; // What was checked, and why it failed if it did
+}
+
+/**
+ * Ask a model a question and return its full reply (the LLM judge's channel)
+ */
+export type Judge = (prompt: string, model?: string) => Promise<string>;
+
+const JUDGE_PROMPT = `You are grading a chatbot's reply against a criterion.
+Answer with JSON only: {"pass": true|false, "reason": "<one sentence>"}.`;
+
+/**
+ * The reply as JSON: the whole reply, or else its first fenced ```json block
+ */
+function parseJsonReply(
+	output: string,
+): { ok: true; value: unknown } | { ok: false } {
+	const fenced = output.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+	for (const candidate of [output.trim(), fenced?.[1]?.trim()]) {
+		if (!candidate) continue;
+		try {
+			return { ok: true, value: JSON.parse(candidate) }; // Model output - standard JSON
+		} catch {
+			// Try the next candidate
+		}
+	}
+	return { ok: false };
+}
+
+async function judge(
+	output: string,
+	criteria: string,
+	ask: Judge,
+	model?: string,
+): Promise<{ passed: boolean; reason: string }> {
+	const verdict = parseJsonReply(
+		await ask(
+			`${JUDGE_PROMPT}\n\nCriterion: ${criteria}\n\nReply to grade:\n"""\n${output}\n"""`,
+			model,
+		),
+	);
+	if (
+		!verdict.ok ||
+		typeof verdict.value !== "object" ||
+		verdict.value === null ||
+		!("pass" in verdict.value)
+	) {
+		return { passed: false, reason: "judge did not return a verdict" };
+	}
+	const reason =
+		"reason" in verdict.value && typeof verdict.value.reason === "string"
+			? verdict.value.reason
+			: "";
+	return { passed: verdict.value.pass === true, reason };
+}
+
+/**
+ * Check one assertion against a bot's reply
+ */
+export async function checkAssertion(
+	assertion: EvalAssertion,
+	output: string,
+	ask: Judge,
+): Promise<AssertionResult> {
+	switch (assertion.type) {
+		case "contains":
+		case "not-contains": {
+			const haystack = assertion.caseSensitive ? output : output.toLowerCase();
+			const needle = assertion.caseSensitive
+				? assertion.value
+				: assertion.value.toLowerCase();
+			const found = haystack.includes(needle);
+			const passed = assertion.type === "contains" ? found : !found;
+			return {
+				assertion,
+				passed,
+				message: `${assertion.type} "${assertion.value}"${passed ? "" : found ? ": found" : ": not found"}`,
+			};
+		}
+		case "regex": {
+			let pattern: RegExp;
+			try {
+				pattern = new RegExp(assertion.pattern, assertion.flags);
+			} catch (error) {
+				return {
+					assertion,
+					passed: false,
+					message: `regex /${assertion.pattern}/: invalid (${error instanceof Error ? error.message : error})`,
+				};
+			}
+			const passed = pattern.test(output);
+			return {
+				assertion,
+				passed,
+				message: `regex ${pattern}${passed ? "" : ": no match"}`,
+			};
+		}
+		case "json-schema": {
+			const reply = parseJsonReply(output);
+			if (!reply.ok) {
+				return {
+					assertion,
+					passed: false,
+					message: "json-schema: reply is not JSON",
+				};
+			}
+			const errors = validateJsonSchema(reply.value, assertion.schema);
+			return {
+				assertion,
+				passed: errors.length === 0,
+				message: `json-schema${errors.length > 0 ? `: ${errors.join("; ")}` : ""}`,
+			};
+		}
+		case "llm-judge": {
+			const { passed, reason } = await judge(
+				output,
+				assertion.criteria,
+				ask,
+				assertion.model,
+			);
+			return {
+				assertion,
+				passed,
+				message: `llm-judge "${assertion.criteria}"${reason ? `: ${reason}` : ""}`,
+			};
+		}
+	}
+}
@@ -0,0 +1,82 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { services } from "~/domain/services";
+import { isBeingId } from "~/lib/types";
+import { db } from "~/server/db";
+import { getBotApiKey } from "~/server/lib/bots";
+import { getLlmProvider } from "~/server/lib/llm";
+import { MockLlmProvider } from "~/server/lib/llm/mock";
+import { formatEvalReport, runEvalSuite } from "./runner";
+import { evalSuiteSchema } from "./suite";
+
+const USAGE = `Usage: npm run bots:eval -- <@bot-id> <suite.json> [options]
+
+Options:
+  --model <id>         Evaluate this model instead of the bot's botModel
+  --space <@id>        Space to resolve prompt placeholders in (default: the bot's location)
+  --mock               Use the mock provider instead of calling a model
+  --mock-reply <text>  Fixed reply for the mock provider (default: an echo)
+  --json <file>        Also write the full report as JSON`;
+
+/**
+ * `npm run bots:eval` entry point. Returns the process exit code: 1 if any case failed.
+ */
+export async function main(argv: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			model: { type: "string" },
+			space: { type: "string" },
+			mock: { type: "boolean", default: false },
+			"mock-reply": { type: "string" },
+			json: { type: "string" },
+		},
+	});
+
+	const [botId, suitePath] = positionals;
+	if (!botId || !suitePath || !isBeingId(botId)) {
+		console.error(USAGE);
+		return 2;
+	}
+
+	const bot = await services.being.getBeing(botId);
+	if (bot.type !== "bot") {
+		console.error(`${botId} is a ${bot.type}, not a bot`);
+		return 2;
+	}
+
+	const suite = evalSuiteSchema.safeParse(
+		JSON.parse(await readFile(suitePath, "utf8")), // Fixture file - standard JSON
+	);
+	if (!suite.success) {
+		console.error(`Invalid suite ${suitePath}: ${suite.error.message}`);
+		return 2;
+	}
+
+	const spaceId = values.space ?? bot.locationId;
+	if (!spaceId || !isBeingId(spaceId)) {
+		console.error(`${botId} isn't in a space; pass --space <@id>`);
+		return 2;
+	}
+
+	const provider = values.mock
+		? new MockLlmProvider(values["mock-reply"])
+		: getLlmProvider(bot, await getBotApiKey(bot.id));
+
+	const report = await runEvalSuite({
+		db,
+		bot,
+		suite: suite.data,
+		provider,
+		spaceId,
+		model: values.model,
+	});
+
+	console.log(formatEvalReport(report));
+	if (values.json) {
+		await writeFile(values.json, `${JSON.stringify(report, null, 2)}\n`);
+	}
+
+	return report.failed > 0 ? 1 : 0;
+}
@@ -0,0 +1,17 @@
+export { type AssertionResult, checkAssertion } from "./assertions";
+export { validateJsonSchema } from "./json-schema";
+export {
+	type EvalCaseResult,
+	type EvalOptions,
+	type EvalReport,
+	formatEvalReport,
+	runEvalSuite,
+} from "./runner";
+export {
+	BOT_PLACEHOLDER_ID,
+	type EvalAssertion,
+	type EvalCase,
+	type EvalSuite,
+	evalSuiteSchema,
+	transcriptToIntentions,
+} from "./suite";
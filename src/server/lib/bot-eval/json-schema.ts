@@ -0,0 +1,127 @@
+/**
+ * A small JSON Schema validator covering what eval suites need: type, enum,
+ * const, object properties/required/additionalProperties, array items and
+ * length, string length/pattern and number bounds. Other keywords are ignored.
+ */
+
+type Schema = Record<string, unknown>;
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "number" && Number.isInteger(value)) return "integer";
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+	const actual = typeOf(value);
+	const allowed = Array.isArray(type) ? type : [type];
+	return allowed.some(
+		(t) => t === actual || (t === "number" && actual === "integer"),
+	);
+}
+
+function isSchema(value: unknown): value is Schema {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validation errors for a value against a schema, as "path: problem" strings; empty if valid
+ */
+export function validateJsonSchema(
+	value: unknown,
+	schema: Schema,
+	path = "$",
+): string[] {
+	const errors: string[] = [];
+
+	if (schema.type !== undefined && !matchesType(value, schema.type)) {
+		return [`${path}: expected ${String(schema.type)}, got ${typeOf(value)}`];
+	}
+	if (
+		Array.isArray(schema.enum) &&
+		!schema.enum.some(
+			(option) => JSON.stringify(option) === JSON.stringify(value),
+		)
+	) {
+		errors.push(`${path}: not one of ${JSON.stringify(schema.enum)}`);
+	}
+	if (
+		"const" in schema &&
+		JSON.stringify(schema.const) !== JSON.stringify(value)
+	) {
+		errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+	}
+
+	if (typeof value === "string") {
+		if (
+			typeof schema.minLength === "number" &&
+			value.length < schema.minLength
+		) {
+			errors.push(`${path}: shorter than ${schema.minLength}`);
+		}
+		if (
+			typeof schema.maxLength === "number" &&
+			value.length > schema.maxLength
+		) {
+			errors.push(`${path}: longer than ${schema.maxLength}`);
+		}
+		if (
+			typeof schema.pattern === "string" &&
+			!new RegExp(schema.pattern).test(value)
+		) {
+			errors.push(`${path}: does not match /${schema.pattern}/`);
+		}
+	}
+
+	if (typeof value === "number") {
+		if (typeof schema.minimum === "number" && value < schema.minimum) {
+			errors.push(`${path}: less than ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === "number" && value > schema.maximum) {
+			errors.push(`${path}: greater than ${schema.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+			errors.push(`${path}: fewer than ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+			errors.push(`${path}: more than ${schema.maxItems} items`);
+		}
+		const items = schema.items;
+		if (isSchema(items)) {
+			value.forEach((item, index) => {
+				errors.push(...validateJsonSchema(item, items, `${path}[${index}]`));
+			});
+		}
+	}
+
+	if (isSchema(value)) {
+		const properties = isSchema(schema.properties) ? schema.properties : {};
+		if (Array.isArray(schema.required)) {
+			for (const key of schema.required) {
+				if (typeof key === "string" && !(key in value)) {
+					errors.push(`${path}: missing required property "${key}"`);
+				}
+			}
+		}
+		for (const [key, propertyValue] of Object.entries(value)) {
+			const propertySchema = properties[key];
+			if (isSchema(propertySchema)) {
+				errors.push(
+					...validateJsonSchema(
+						propertyValue,
+						propertySchema,
+						`${path}.${key}`,
+					),
+				);
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}: unexpected property "${key}"`);
+			}
+		}
+	}
+
+	return errors;
+}
@@ -0,0 +1,192 @@
+import type { DrizzleDB } from "~/server/db";
+import type { Being, BeingId } from "~/server/db/types";
+import { buildConversationContext } from "~/server/lib/bot-context";
+import {
+	type ChatCompletionRequest,
+	type LlmProvider,
+	type RetryPolicy,
+	getRetryPolicy,
+	streamChatWithRetry,
+} from "~/server/lib/llm";
+import {
+	DEFAULT_BOT_MODEL,
+	getModelContextLength,
+	modelSupportsVision,
+} from "~/server/lib/models";
+import { type AssertionResult, checkAssertion } from "./assertions";
+import { type EvalSuite, transcriptToIntentions } from "./suite";
+
+export interface EvalOptions {
+	db: DrizzleDB;
+	bot: Being;
+	suite: EvalSuite;
+	provider: LlmProvider; // The bot's own provider, or a mock
+	spaceId: BeingId; // Where prompt placeholders like {{space.name}} resolve
+	model?: string; // Overrides botModel, to compare models on the same suite
+}
+
+export interface EvalCaseResult {
+	name: string;
+	passed: boolean;
+	output: string;
+	assertions: AssertionResult[];
+	error?: string; // The reply itself failed
+	durationMs: number;
+	usage: { promptTokens: number; completionTokens: number };
+}
+
+export interface EvalReport {
+	suite: string;
+	botId: BeingId;
+	model: string;
+	provider: string;
+	startedAt: string;
+	passed: number;
+	failed: number;
+	cases: EvalCaseResult[];
+}
+
+/**
+ * Stream a completion to the end and return its text and token usage
+ */
+async function complete(
+	provider: LlmProvider,
+	request: ChatCompletionRequest,
+	retryPolicy: RetryPolicy,
+): Promise<{
+	text: string;
+	usage: { promptTokens: number; completionTokens: number };
+}> {
+	let text = "";
+	const usage = { promptTokens: 0, completionTokens: 0 };
+	for await (const event of streamChatWithRetry(
+		provider,
+		request,
+		retryPolicy,
+	)) {
+		if (event.type === "content") text += event.text;
+		if (event.type === "usage") {
+			usage.promptTokens += event.promptTokens;
+			usage.completionTokens += event.completionTokens;
+		}
+	}
+	return { text, usage };
+}
+
+/**
+ * Replay every case of a suite through the bot's prompt assembly and score
+ * the replies. Tools are not offered, so a run never acts on the live space.
+ */
+export async function runEvalSuite(options: EvalOptions): Promise<EvalReport> {
+	const { db, bot, suite, provider, spaceId } = options;
+	const model = options.model ?? bot.botModel ?? DEFAULT_BOT_MODEL;
+	const retryPolicy = getRetryPolicy(bot);
+	const contextLength = await getModelContextLength(model);
+	const supportsVision = await modelSupportsVision(model);
+
+	const ask = async (prompt: string, judgeModel?: string) =>
+		(
+			await complete(
+				provider,
+				{
+					model: judgeModel ?? model,
+					messages: [{ role: "user", content: prompt }],
+				},
+				retryPolicy,
+			)
+		).text;
+
+	const startedAt = new Date().toISOString();
+	const cases: EvalCaseResult[] = [];
+
+	for (const evalCase of suite.cases) {
+		const started = Date.now();
+		const transcript = transcriptToIntentions(evalCase, bot, spaceId);
+		const trigger = transcript.history[transcript.history.length - 1];
+		if (!trigger) continue; // The suite schema requires at least one message
+
+		try {
+			const messages = await buildConversationContext(
+				db,
+				{ ...bot, botModel: model },
+				spaceId,
+				trigger,
+				contextLength,
+				{ supportsVision, transcript },
+			);
+			const { text, usage } = await complete(
+				provider,
+				{ model, messages },
+				retryPolicy,
+			);
+
+			const assertions: AssertionResult[] = [];
+			for (const assertion of evalCase.assertions) {
+				assertions.push(await checkAssertion(assertion, text, ask));
+			}
+
+			cases.push({
+				name: evalCase.name,
+				passed: assertions.every((result) => result.passed),
+				output: text,
+				assertions,
+				durationMs: Date.now() - started,
+				usage,
+			});
+		} catch (error) {
+			cases.push({
+				name: evalCase.name,
+				passed: false,
+				output: "",
+				assertions: [],
+				error: error instanceof Error ? error.message : String(error),
+				durationMs: Date.now() - started,
+				usage: { promptTokens: 0, completionTokens: 0 },
+			});
+		}
+	}
+
+	const passed = cases.filter((result) => result.passed).length;
+	return {
+		suite: suite.name,
+		botId: bot.id,
+		model,
+		provider: provider.name,
+		startedAt,
+		passed,
+		failed: cases.length - passed,
+		cases,
+	};
+}
+
+/**
+ * Human-readable report: one line per case, failing assertions underneath
+ */
+export function formatEvalReport(report: EvalReport): string {
+	const lines = [
+		`Suite "${report.suite}" - ${report.botId} on ${report.model} (${report.provider})`,
+		"",
+	];
+
+	for (const result of report.cases) {
+		lines.push(
+			`${result.passed ? "PASS" : "FAIL"}  ${result.name}  (${result.durationMs}ms, ${result.usage.promptTokens}+${result.usage.completionTokens} tokens)`,
+		);
+		if (result.error) lines.push(`      error: ${result.error}`);
+		for (const assertion of result.assertions) {
+			if (!assertion.passed) lines.push(`      ✗ ${assertion.message}`);
+		}
+		if (!result.passed && result.output) {
+			const preview = result.output.replace(/\s+/g, " ").trim();
+			lines.push(
+				`      reply: ${preview.length > 200 ? `${preview.slice(0, 200)}…` : preview}`,
+			);
+		}
+	}
+
+	lines.push(
+		"",
+		`${report.passed} passed, ${report.failed} failed, ${report.cases.length} total`,
+	);
+	return lines.join("\n");
+}
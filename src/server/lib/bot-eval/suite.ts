@@ -0,0 +1,107 @@
+import { z } from "zod/v4";
+import type { ContentNode } from "~/server/db/content-types";
+import { contentNodeSchema } from "~/server/db/types";
+import type { Being, BeingId, Intention } from "~/server/db/types";
+
+// Stands in for the bot under test in a transcript, so suites work for any bot
+export const BOT_PLACEHOLDER_ID = "$bot";
+
+/**
+ * One recorded message. `content` may be plain text or a ContentNode array.
+ */
+export const transcriptMessageSchema = z.object({
+	ownerId: z.string().min(1), // A being ID, or "$bot" for the bot under test
+	ownerName: z.string().optional(), // Defaults to the owner ID
+	type: z.string().default("utterance"),
+	content: z.union([z.string(), z.array(contentNodeSchema)]),
+	createdAt: z.iso.datetime({ offset: true }).optional(),
+});
+
+export const evalAssertionSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("contains"),
+		value: z.string().min(1),
+		caseSensitive: z.boolean().default(false),
+	}),
+	z.object({
+		type: z.literal("not-contains"),
+		value: z.string().min(1),
+		caseSensitive: z.boolean().default(false),
+	}),
+	z.object({
+		type: z.literal("regex"),
+		pattern: z.string().min(1),
+		flags: z.string().default(""),
+	}),
+	z.object({
+		type: z.literal("json-schema"),
+		schema: z.record(z.string(), z.unknown()), // The reply (or its ```json block) must match
+	}),
+	z.object({
+		type: z.literal("llm-judge"),
+		criteria: z.string().min(1), // What a passing reply does, in plain words
+		model: z.string().optional(), // Defaults to the model under test
+	}),
+]);
+
+export type EvalAssertion = z.infer<typeof evalAssertionSchema>;
+
+export const evalCaseSchema = z.object({
+	name: z.string().min(1),
+	transcript: z.array(transcriptMessageSchema).min(1), // The last message triggers the reply
+	assertions: z.array(evalAssertionSchema).min(1),
+});
+
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+
+export const evalSuiteSchema = z.object({
+	name: z.string().min(1),
+	description: z.string().optional(),
+	cases: z.array(evalCaseSchema).min(1),
+});
+
+export type EvalSuite = z.infer<typeof evalSuiteSchema>;
+
+/**
+ * Turn a case's transcript into intentions in the given space, oldest first.
+ * Messages without timestamps are spaced a minute apart, ending now.
+ */
+export function transcriptToIntentions(
+	evalCase: EvalCase,
+	bot: Being,
+	spaceId: BeingId,
+): { history: Intention[]; speakerNames: Map<string, string> } {
+	const speakerNames = new Map<string, string>([[bot.id, bot.name]]);
+	const now = Date.now();
+	const count = evalCase.transcript.length;
+
+	const history = evalCase.transcript.map((message, index): Intention => {
+		const ownerId =
+			message.ownerId === BOT_PLACEHOLDER_ID ? bot.id : message.ownerId;
+		if (message.ownerName) speakerNames.set(ownerId, message.ownerName);
+
+		const createdAt = message.createdAt
+			? new Date(message.createdAt)
+			: new Date(now - (count - 1 - index) * 60_000);
+		const content: ContentNode[] =
+			typeof message.content === "string" ? [message.content] : message.content;
+
+		return {
+			id: `/eval-${index}`,
+			name: `Eval message ${index}`,
+			type: message.type,
+			state: "complete",
+			ownerId,
+			locationId: spaceId,
+			content,
+			metadata: null,
+			parentId: null,
+			editedAt: null,
+			deletedAt: null,
+			createdAt,
+			modifiedAt: createdAt,
+		};
+	});
+
+	return { history, speakerNames };
+}
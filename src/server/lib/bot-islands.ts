@@ -0,0 +1,93 @@
+import { z } from "zod/v4";
+import {
+	type StructuredIsland,
+	type StructuredIslandType,
+	structuredIslandSchemas,
+	structuredIslandTypes,
+} from "~/lib/types/islands";
+import type { ToolCall, ToolDefinition } from "~/server/lib/llm";
+
+/**
+ * The function each structured island is emitted through. Calling one puts
+ * the island into the reply at that point instead of running anything.
+ */
+const islandTools: Record<
+	StructuredIslandType,
+	{ name: string; description: string }
+> = {
+	poll: {
+		name: "show_poll",
+		description:
+			"Show a poll in your reply. Use when asking the group to choose between options.",
+	},
+	"task-list": {
+		name: "show_task_list",
+		description:
+			"Show a checklist in your reply. Use for plans, to-dos and step-by-step instructions.",
+	},
+	"link-card": {
+		name: "show_link_card",
+		description:
+			"Show a link as a card in your reply. Only for https URLs you are sure exist.",
+	},
+	"code-block": {
+		name: "show_code_block",
+		description:
+			"Show code in your reply, optionally with a filename. Prefer this over markdown fences for whole files.",
+	},
+};
+
+const islandTypeByToolName = new Map(
+	structuredIslandTypes.map((type) => [islandTools[type].name, type]),
+);
+
+export type IslandCallResult =
+	| { ok: true; island: StructuredIsland }
+	| { ok: false; error: string };
+
+/**
+ * Definitions for every island function, to send alongside the bot's own tools
+ */
+export function islandToolDefinitions(): ToolDefinition[] {
+	return structuredIslandTypes.map((type) => ({
+		type: "function" as const,
+		function: {
+			name: islandTools[type].name,
+			description: islandTools[type].description,
+			parameters: z.toJSONSchema(structuredIslandSchemas[type]) as Record<
+				string,
+				unknown
+			>,
+		},
+	}));
+}
+
+export function isIslandToolCall(call: ToolCall): boolean {
+	return islandTypeByToolName.has(call.function.name);
+}
+
+/**
+ * Turn an island function call into the island it describes, or an error for the model
+ */
+export function islandFromToolCall(call: ToolCall): IslandCallResult {
+	const type = islandTypeByToolName.get(call.function.name);
+	if (!type) {
+		return { ok: false, error: `Unknown island "${call.function.name}"` };
+	}
+
+	let rawProps: unknown;
+	try {
+		rawProps = call.function.arguments
+			? JSON.parse(call.function.arguments) // Model output - standard JSON
+			: {};
+	} catch {
+		return { ok: false, error: "Arguments are not valid JSON" };
+	}
+
+	const props = structuredIslandSchemas[type].safeParse(rawProps);
+	if (!props.success) {
+		return { ok: false, error: `Invalid arguments: ${props.error.message}` };
+	}
+
+	return { ok: true, island: { type, props: props.data } as StructuredIsland };
+}
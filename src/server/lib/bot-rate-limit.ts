@@ -0,0 +1,114 @@
+import { getBotBucket, getUserBucket } from "~/domain/rate-limit-service";
+import { services } from "~/domain/services";
+import { db } from "~/server/db";
+import type { Being, BeingId } from "~/server/db/types";
+import { logger } from "~/server/lib/logger";
+
+const rateLimitLogger = logger.child({ name: "BotRateLimit" });
+
+// At most one throttle notice per bucket in this window
+const NOTICE_INTERVAL_MS = 60_000;
+
+/**
+ * Post a visible notice from a bot that a request was throttled. Notices are
+ * complete `notice` intentions - they show in the chat but never reach a prompt.
+ */
+async function postThrottleNotice(
+	bot: Being,
+	spaceId: BeingId,
+	key: string,
+	text: string,
+): Promise<void> {
+	if (!(await services.rateLimit.claimNotice(key, NOTICE_INTERVAL_MS))) return;
+
+	const { createIntention } = await import("~/lib/being-operations");
+	await createIntention(
+		db,
+		{
+			id: `/notice-${crypto.randomUUID()}`,
+			name: `Rate limit notice from ${bot.id}`,
+			type: "notice",
+			state: "complete",
+			ownerId: bot.id,
+			locationId: spaceId,
+			content: [{ type: "rate-limit", props: { key }, content: [text] }],
+		},
+		{
+			sessionBeingId: bot.id,
+			currentUser: null,
+			isCurrentUserSuperuser: false,
+		},
+	);
+}
+
+/**
+ * Take a token from the bot's bucket in this space. Returns null if the bot may
+ * answer; otherwise the bot is throttled, and the caller decides whether to
+ * post the returned notice - not when another bot answers in its place.
+ */
+export async function takeBotToken(
+	bot: Being,
+	space: Being | null,
+	spaceId: BeingId,
+): Promise<{ postNotice: () => Promise<void> } | null> {
+	const key = `bot:${bot.id}:${spaceId}`;
+	const result = await services.rateLimit.take(key, getBotBucket(bot, space));
+	if (result.allowed) return null;
+
+	rateLimitLogger.warn(
+		{ botId: bot.id, spaceId, retryAfterSeconds: result.retryAfterSeconds },
+		"Bot rate limited in space",
+	);
+	return {
+		postNotice: () =>
+			postThrottleNotice(
+				bot,
+				spaceId,
+				key,
+				`${bot.name} is getting too many requests here and will sit this one out. Try again in about ${result.retryAfterSeconds}s.`,
+			),
+	};
+}
+
+/**
+ * Take a token from the bot's bucket in this space. Returns true (and posts a
+ * notice) if the bot is throttled and should stay quiet.
+ */
+export async function isBotThrottled(
+	bot: Being,
+	space: Being | null,
+	spaceId: BeingId,
+): Promise<boolean> {
+	const throttled = await takeBotToken(bot, space, spaceId);
+	if (!throttled) return false;
+	await throttled.postNotice();
+	return true;
+}
+
+/**
+ * Take a token from the bucket of the person who woke the bots in this space -
+ * each space sets its own per-user limit, so each keeps its own bucket. Returns
+ * true (and has `noticeBot` post a notice) if they're throttled and no bot should answer.
+ */
+export async function isUserThrottled(
+	userId: BeingId,
+	space: Being | null,
+	spaceId: BeingId,
+	noticeBot: Being,
+): Promise<boolean> {
+	const key = `user:${spaceId}:${userId}`;
+	const result = await services.rateLimit.take(key, getUserBucket(space));
+	if (result.allowed) return false;
+
+	rateLimitLogger.warn(
+		{ userId, spaceId, retryAfterSeconds: result.retryAfterSeconds },
+		"User rate limited, not activating bots",
+	);
+	await postThrottleNotice(
+		noticeBot,
+		spaceId,
+		key,
+		`You're sending messages faster than the bots can answer. They'll listen again in about ${result.retryAfterSeconds}s.`,
+	);
+	return true;
+}
@@ -0,0 +1,94 @@
+import { z } from "zod/v4";
+import type { AuthContext } from "~/domain/auth-service";
+import { canEdit } from "~/lib/permissions";
+import type { ContentDataIsland, ContentNode } from "~/server/db/content-types";
+import type { Being, BeingId, Intention } from "~/server/db/types";
+
+/**
+ * Who can see a bot's reasoning, stored in `properties.thinkingVisibility`:
+ * nobody (it isn't kept), the bot's owner, or everyone in the space
+ */
+export const thinkingVisibilitySchema = z.enum(["none", "owner", "everyone"]);
+
+export type ThinkingVisibility = z.infer<typeof thinkingVisibilitySchema>;
+
+/**
+ * Props of a reasoning island: `{ type: "thinking", props, content: [text] }`.
+ * Visibility is copied onto the island so reads can redact it without the bot.
+ */
+export interface ThinkingIslandProps {
+	visibility: Exclude<ThinkingVisibility, "none">;
+	ownerId: BeingId | null; // The bot's owner when the reply was written
+}
+
+export function getThinkingVisibility(bot: Being): ThinkingVisibility {
+	const result = thinkingVisibilitySchema.safeParse(
+		bot.properties?.thinkingVisibility,
+	);
+	return result.success ? result.data : "owner";
+}
+
+export function thinkingIsland(
+	bot: Being,
+	visibility: ThinkingIslandProps["visibility"],
+	text: string,
+): ContentDataIsland {
+	const props: ThinkingIslandProps = { visibility, ownerId: bot.ownerId };
+	return { type: "thinking", props: { ...props }, content: [text] };
+}
+
+export function isThinkingIsland(node: ContentNode): boolean {
+	return typeof node !== "string" && node.type === "thinking";
+}
+
+function canSeeThinking(
+	node: ContentNode,
+	viewer: AuthContext | null,
+): boolean {
+	if (typeof node === "string" || node.type !== "thinking") return true;
+	if (node.props?.visibility === "everyone") return true;
+	if (!viewer) return false;
+	const ownerId =
+		typeof node.props?.ownerId === "string"
+			? (node.props.ownerId as BeingId)
+			: null;
+	return canEdit(viewer.sessionBeingId, ownerId, viewer.isCurrentUserSuperuser);
+}
+
+function redactContent(
+	content: ContentNode[],
+	viewer: AuthContext | null,
+): ContentNode[] {
+	return content.filter((node) => canSeeThinking(node, viewer));
+}
+
+/**
+ * Remove reasoning the viewer isn't allowed to see from an intention,
+ * including earlier attempts kept in `metadata.alternates`
+ */
+export function redactThinking(
+	intention: Intention,
+	viewer: AuthContext | null,
+): Intention {
+	const alternates = intention.metadata?.alternates;
+	return {
+		...intention,
+		content: redactContent(intention.content, viewer),
+		metadata:
+			intention.metadata && Array.isArray(alternates)
+				? {
+						...intention.metadata,
+						alternates: alternates.map((alternate) =>
+							alternate &&
+							typeof alternate === "object" &&
+							Array.isArray(alternate.content)
+								? {
+										...alternate,
+										content: redactContent(alternate.content, viewer),
+									}
+								: alternate,
+						),
+					}
+				: intention.metadata,
+	};
+}
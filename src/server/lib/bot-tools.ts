@@ -0,0 +1,210 @@
+import { z } from "zod/v4";
+import type { AuthContext } from "~/domain/auth-service";
+import { services } from "~/domain/services";
+import { beingIdSchema } from "~/lib/types";
+import type { ContentNode } from "~/server/db/content-types";
+import type { Being, BeingId } from "~/server/db/types";
+import { contentToText } from "~/server/lib/bot-context";
+import type { ToolCall, ToolDefinition } from "~/server/lib/llm";
+import { logger } from "~/server/lib/logger";
+
+const toolsLogger = logger.child({ name: "BotTools" });
+
+/**
+ * Everything a tool needs to act on behalf of a bot
+ */
+export interface ToolContext {
+	bot: Being;
+	spaceId: BeingId;
+	auth: AuthContext; // The bot's own auth context - tools never act as anyone else
+}
+
+export interface BotTool<TArgs = unknown> {
+	name: string;
+	description: string;
+	parameters: z.ZodType<TArgs>;
+	execute(args: TArgs, context: ToolContext): Promise<unknown>;
+}
+
+export type ToolResult =
+	| { ok: true; result: unknown }
+	| { ok: false; error: string };
+
+/**
+ * Registry of server-side tools bots can call through the LLM's function-calling channel
+ */
+export class ToolRegistry {
+	private tools = new Map<string, BotTool>();
+
+	register<TArgs>(tool: BotTool<TArgs>): this {
+		this.tools.set(tool.name, tool as BotTool);
+		return this;
+	}
+
+	get(name: string): BotTool | undefined {
+		return this.tools.get(name);
+	}
+
+	/**
+	 * Names and descriptions of every registered tool, for pickers
+	 */
+	list(): { name: string; description: string }[] {
+		return [...this.tools.values()].map(({ name, description }) => ({
+			name,
+			description,
+		}));
+	}
+
+	/**
+	 * Tool definitions to send to the model, limited to the given names
+	 */
+	definitions(names: string[]): ToolDefinition[] {
+		return names.flatMap((name) => {
+			const tool = this.tools.get(name);
+			if (!tool) return [];
+			return [
+				{
+					type: "function" as const,
+					function: {
+						name: tool.name,
+						description: tool.description,
+						parameters: z.toJSONSchema(tool.parameters) as Record<
+							string,
+							unknown
+						>,
+					},
+				},
+			];
+		});
+	}
+
+	/**
+	 * Validate and run a tool call, turning every failure into an error result for the model
+	 */
+	async execute(call: ToolCall, context: ToolContext): Promise<ToolResult> {
+		const tool = this.tools.get(call.function.name);
+		if (!tool) {
+			return { ok: false, error: `Unknown tool "${call.function.name}"` };
+		}
+
+		let rawArgs: unknown;
+		try {
+			rawArgs = call.function.arguments
+				? JSON.parse(call.function.arguments) // Model output - standard JSON
+				: {};
+		} catch {
+			return { ok: false, error: "Tool arguments are not valid JSON" };
+		}
+
+		const args = tool.parameters.safeParse(rawArgs);
+		if (!args.success) {
+			return { ok: false, error: `Invalid arguments: ${args.error.message}` };
+		}
+
+		try {
+			return { ok: true, result: await tool.execute(args.data, context) };
+		} catch (error) {
+			toolsLogger.warn(
+				{ tool: tool.name, botId: context.bot.id, error },
+				"Tool execution failed",
+			);
+			return {
+				ok: false,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+}
+
+/* ---------- Built-in tools ---------- */
+
+const searchBeingsTool: BotTool<{
+	query: string;
+	kind?: "space" | "guest" | "bot" | "document";
+}> = {
+	name: "search_beings",
+	description:
+		"Search beings (spaces, people, bots, documents) by name. Returns ids, names and types.",
+	parameters: z.object({
+		query: z.string().max(120),
+		kind: z.enum(["space", "guest", "bot", "document"]).optional(),
+	}),
+	async execute({ query, kind }) {
+		const { items } = await services.being.searchBeings({
+			q: query,
+			kind,
+			sort: "name",
+			limit: 20,
+		});
+		return items;
+	},
+};
+
+const readDocumentTool: BotTool<{ id: BeingId }> = {
+	name: "read_document",
+	description: "Read the text content of a document being by its id.",
+	parameters: z.object({ id: beingIdSchema }),
+	async execute({ id }) {
+		const document = await services.being.getBeing(id);
+		if (document.type !== "document") {
+			throw new Error(`${id} is a ${document.type}, not a document`);
+		}
+		return {
+			id: document.id,
+			name: document.name,
+			content: contentToText((document.content ?? []) as ContentNode[]),
+		};
+	},
+};
+
+const createUtteranceTool: BotTool<{ spaceId: BeingId; content: string }> = {
+	name: "create_utterance",
+	description:
+		"Post a message as yourself in another space. Use search_beings to find the space id.",
+	parameters: z.object({
+		spaceId: beingIdSchema,
+		content: z.string().min(1),
+	}),
+	async execute({ spaceId, content }, { auth }) {
+		const space = await services.being.getBeing(spaceId);
+		if (space.type !== "space") {
+			throw new Error(`${spaceId} is not a space`);
+		}
+		// Don't wake the bots over there - that's how bot loops start
+		const { id } = await services.intention.createUtterance(
+			{ content, beingId: spaceId, activateBots: false },
+			auth,
+		);
+		return { id, spaceId };
+	},
+};
+
+const moveToSpaceTool: BotTool<{ spaceId: BeingId }> = {
+	name: "move_to_space",
+	description:
+		"Move yourself to another space. You will stop hearing this space.",
+	parameters: z.object({ spaceId: beingIdSchema }),
+	async execute({ spaceId }, { bot, auth }) {
+		// Beings may always move themselves, whoever owns them
+		const moved = await services.being.moveBeing(bot.id, spaceId, auth);
+		return { id: moved.id, locationId: moved.locationId };
+	},
+};
+
+export const toolRegistry = new ToolRegistry()
+	.register(searchBeingsTool)
+	.register(readDocumentTool)
+	.register(createUtteranceTool)
+	.register(moveToSpaceTool);
+
+/**
+ * Tools a bot has opted into via `properties.botTools` (a list of tool names)
+ */
+export function getEnabledToolNames(bot: Being): string[] {
+	const names = bot.properties?.botTools;
+	if (!Array.isArray(names)) return [];
+	return names.filter(
+		(name): name is string =>
+			typeof name === "string" && toolRegistry.get(name) !== undefined,
+	);
+}
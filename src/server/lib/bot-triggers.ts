@@ -0,0 +1,330 @@
+import { and, desc, eq, ne, sql } from "drizzle-orm";
+import { z } from "zod/v4";
+import { services } from "~/domain/services";
+import { syncEmitter } from "~/lib/sync";
+import { db } from "~/server/db";
+import type { ContentNode } from "~/server/db/content-types";
+import { beings, botTriggerRuns, intentions } from "~/server/db/schema";
+import { selectBeingSchema } from "~/server/db/types";
+import type { Being, BeingId, IntentionId } from "~/server/db/types";
+import { isBotThrottled } from "~/server/lib/bot-rate-limit";
+import { activateBot } from "~/server/lib/bots";
+import { cronMatches, isValidCron } from "~/server/lib/cron";
+import { logger } from "~/server/lib/logger";
+
+const triggersLogger = logger.child({ name: "BotTriggers" });
+
+// How often the job loop checks schedules and silence; under a minute so no cron minute is missed
+const TICK_INTERVAL_MS = 30_000;
+
+/**
+ * Things that wake a bot besides being spoken to, stored on the bot as a list
+ * in `properties.triggers`. Each run posts a `bot-trigger` intention in the
+ * bot's space (with the optional prompt) and the bot replies to it.
+ *
+ * - schedule: a five-field cron expression, evaluated in `timeZone` (default UTC)
+ * - presence: a being enters or leaves the bot's space
+ * - silence: nobody but the bot has spoken for `minutes`
+ */
+export const botTriggerSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("schedule"),
+		cron: z.string().refine(isValidCron, "Invalid cron expression"),
+		timeZone: z.string().optional(),
+		prompt: z.string().optional(),
+	}),
+	z.object({
+		type: z.literal("presence"),
+		on: z.array(z.enum(["enter", "leave"])).default(["enter"]),
+		prompt: z.string().optional(),
+	}),
+	z.object({
+		type: z.literal("silence"),
+		minutes: z.number().positive(),
+		prompt: z.string().optional(),
+	}),
+]);
+
+export type BotTrigger = z.infer<typeof botTriggerSchema>;
+
+/**
+ * A bot's valid triggers; malformed entries are skipped
+ */
+export function getBotTriggers(bot: Being): BotTrigger[] {
+	const triggers = bot.properties?.triggers;
+	if (!Array.isArray(triggers)) return [];
+	return triggers.flatMap((trigger) => {
+		const result = botTriggerSchema.safeParse(trigger);
+		return result.success ? [result.data] : [];
+	});
+}
+
+/**
+ * Record a trigger run as an intention in the space and let the bot answer it
+ */
+export async function runBotTrigger(
+	bot: Being,
+	spaceId: BeingId,
+	trigger: BotTrigger,
+	description: string,
+): Promise<void> {
+	const space = await services.being.getBeing(spaceId);
+	const exceeded = await services.usage.getExceededBudget(bot, space);
+	if (exceeded) {
+		triggersLogger.warn(
+			{ botId: bot.id, spaceId, trigger: trigger.type, reason: exceeded },
+			"Budget exceeded, skipping bot trigger",
+		);
+		return;
+	}
+	if (await isBotThrottled(bot, space, spaceId)) return;
+
+	const runId: IntentionId = `/trigger-${crypto.randomUUID()}`;
+	const text = trigger.prompt
+		? `${description}\n${trigger.prompt}`
+		: description;
+	const content: ContentNode[] = [
+		{ type: "bot-trigger", props: { trigger: trigger.type }, content: [text] },
+	];
+
+	const { createIntention } = await import("~/lib/being-operations");
+	await createIntention(
+		db,
+		{
+			id: runId,
+			name: `${trigger.type} trigger for ${bot.id}`,
+			type: "bot-trigger",
+			state: "complete",
+			ownerId: bot.id,
+			locationId: spaceId,
+			content,
+			metadata: { trigger },
+		},
+		{
+			sessionBeingId: bot.id,
+			currentUser: null,
+			isCurrentUserSuperuser: false,
+		},
+	);
+
+	triggersLogger.info(
+		{ botId: bot.id, spaceId, trigger: trigger.type, runId },
+		"Bot trigger fired",
+	);
+
+	await activateBot(bot.id, spaceId, runId);
+}
+
+async function loadTriggeredBots(): Promise<
+	{ bot: Being; triggers: BotTrigger[] }[]
+> {
+	const bots = await db.query.beings.findMany({
+		where: eq(beings.type, "bot"),
+	});
+	return bots.flatMap((raw) => {
+		const bot = selectBeingSchema.parse(raw);
+		const triggers = getBotTriggers(bot);
+		return triggers.length > 0 && bot.locationId ? [{ bot, triggers }] : [];
+	});
+}
+
+const globalForTriggers = globalThis as unknown as {
+	botTriggersStarted: boolean | undefined;
+};
+
+/**
+ * Claim a trigger's run for a marker (the cron minute, or the message whose
+ * silence it breaks). Only one claim per marker succeeds, across every server
+ * instance, so each run fires once.
+ */
+async function claimRun(key: string, marker: string): Promise<boolean> {
+	const claimed = await db
+		.insert(botTriggerRuns)
+		.values({ key, marker, firedAt: new Date() })
+		.onConflictDoUpdate({
+			target: botTriggerRuns.key,
+			set: { marker, firedAt: sql`now()` },
+			setWhere: ne(botTriggerRuns.marker, marker),
+		})
+		.returning({ key: botTriggerRuns.key });
+	return claimed.length > 0;
+}
+
+/**
+ * Run a trigger in the background: a bot's reply can take a while, and one
+ * failing run shouldn't hold up or abort the others
+ */
+function startBotTrigger(
+	bot: Being,
+	spaceId: BeingId,
+	trigger: BotTrigger,
+	description: string,
+): void {
+	runBotTrigger(bot, spaceId, trigger, description).catch((error) =>
+		triggersLogger.error(
+			{ error, botId: bot.id, spaceId, trigger: trigger.type },
+			"Bot trigger failed",
+		),
+	);
+}
+
+/**
+ * Start a schedule or silence trigger if it is due and this instance claims it
+ */
+async function checkTrigger(
+	bot: Being,
+	trigger: BotTrigger,
+	key: string,
+	now: Date,
+): Promise<void> {
+	const spaceId = bot.locationId as BeingId;
+
+	if (trigger.type === "schedule") {
+		let matches = false;
+		try {
+			matches = cronMatches(trigger.cron, now, trigger.timeZone);
+		} catch (error) {
+			triggersLogger.warn(
+				{ botId: bot.id, cron: trigger.cron, error },
+				"Could not evaluate schedule trigger",
+			);
+		}
+		if (matches && (await claimRun(key, now.toISOString().slice(0, 16)))) {
+			startBotTrigger(
+				bot,
+				spaceId,
+				trigger,
+				`Scheduled trigger (${trigger.cron}) fired at ${now.toISOString()}.`,
+			);
+		}
+	}
+
+	if (trigger.type === "silence") {
+		const [latest] = await db
+			.select({
+				id: intentions.id,
+				ownerId: intentions.ownerId,
+				createdAt: intentions.createdAt,
+			})
+			.from(intentions)
+			.where(
+				and(
+					eq(intentions.locationId, spaceId),
+					eq(intentions.type, "utterance"),
+				),
+			)
+			.orderBy(desc(intentions.createdAt))
+			.limit(1);
+
+		// Only break a silence someone else left; never talk to an empty room forever
+		if (
+			latest &&
+			latest.ownerId !== bot.id &&
+			now.getTime() - latest.createdAt.getTime() >= trigger.minutes * 60_000 &&
+			(await claimRun(key, latest.id))
+		) {
+			startBotTrigger(
+				bot,
+				spaceId,
+				trigger,
+				`The space has been quiet for ${trigger.minutes} minutes.`,
+			);
+		}
+	}
+}
+
+/**
+ * Check schedule and silence triggers for every bot. Runs start in the
+ * background, so the tick itself stays short.
+ */
+async function tick(now = new Date()): Promise<void> {
+	for (const { bot, triggers } of await loadTriggeredBots()) {
+		for (const [index, trigger] of triggers.entries()) {
+			try {
+				await checkTrigger(bot, trigger, `${bot.id}:${index}`, now);
+			} catch (error) {
+				triggersLogger.error(
+					{ error, botId: bot.id, trigger: trigger.type },
+					"Could not check bot trigger",
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Fire presence triggers for bots in the spaces a being left or entered
+ */
+async function handleLocationChange(event: {
+	beingId: BeingId;
+	spaceId: BeingId | null;
+	oldSpaceId: BeingId | null;
+}): Promise<void> {
+	const mover = await db.query.beings.findFirst({
+		where: eq(beings.id, event.beingId),
+	});
+	if (!mover) return;
+
+	const changes = [
+		{ direction: "leave", spaceId: event.oldSpaceId, verb: "left" },
+		{ direction: "enter", spaceId: event.spaceId, verb: "entered" },
+	] as const;
+
+	for (const { direction, spaceId, verb } of changes) {
+		if (!spaceId) continue;
+
+		const bots = await db.query.beings.findMany({
+			where: and(eq(beings.locationId, spaceId), eq(beings.type, "bot")),
+		});
+
+		for (const raw of bots) {
+			if (raw.id === mover.id) continue; // Bots don't greet themselves
+			const bot = selectBeingSchema.parse(raw);
+
+			for (const trigger of getBotTriggers(bot)) {
+				if (trigger.type !== "presence" || !trigger.on.includes(direction)) {
+					continue;
+				}
+				startBotTrigger(
+					bot,
+					spaceId,
+					trigger,
+					`${mover.name} (${mover.id}) ${verb} the space.`,
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Start the trigger job loop and presence listener (once per server process)
+ */
+export function startBotTriggers(): void {
+	if (globalForTriggers.botTriggersStarted || !syncEmitter) return;
+	globalForTriggers.botTriggersStarted = true;
+
+	syncEmitter.on(
+		"being-location-change",
+		(event: Parameters<typeof handleLocationChange>[0]) => {
+			handleLocationChange(event).catch((error) =>
+				triggersLogger.error(
+					{ error, beingId: event.beingId },
+					"Presence trigger failed",
+				),
+			);
+		},
+	);
+
+	let running = false;
+	setInterval(() => {
+		if (running) return; // Skip a tick rather than overlap a slow database
+		running = true;
+		tick()
+			.catch((error) => triggersLogger.error({ error }, "Trigger tick failed"))
+			.finally(() => {
+				running = false;
+			});
+	}, TICK_INTERVAL_MS);
+
+	triggersLogger.info("Bot trigger loop started");
+}
@@ -1,40 +1,233 @@
 import { and, eq } from "drizzle-orm";
-import { env } from "~/env";
+import { services } from "~/domain/services";
+import type { UpdateIntentionInput } from "~/lib/being-operations";
+import { streamAttempt } from "~/lib/sync";
+import { ServerSync } from "~/lib/sync/server-sync";
 import { db } from "~/server/db";
+import type { ContentNode } from "~/server/db/content-types";
 import { beings, intentions } from "~/server/db/schema";
+import { selectBeingSchema, selectIntentionSchema } from "~/server/db/types";
 import type { Being, BeingId, Intention, IntentionId } from "~/server/db/types";
+import {
+	getBotReplyDepth,
+	selectRespondingBots,
+} from "~/server/lib/bot-arbiter";
+import {
+	buildConversationContext,
+	estimateMessageTokens,
+	estimateTokens,
+} from "~/server/lib/bot-context";
+import {
+	isIslandToolCall,
+	islandFromToolCall,
+	islandToolDefinitions,
+} from "~/server/lib/bot-islands";
+import { isUserThrottled, takeBotToken } from "~/server/lib/bot-rate-limit";
+import {
+	getThinkingVisibility,
+	thinkingIsland,
+} from "~/server/lib/bot-thinking";
+import {
+	type ToolContext,
+	type ToolResult,
+	getEnabledToolNames,
+	toolRegistry,
+} from "~/server/lib/bot-tools";
+import {
+	type ChatMessage,
+	LlmProviderError,
+	type ToolCall,
+	getLlmProvider,
+	getRetryPolicy,
+	streamChatWithRetry,
+} from "~/server/lib/llm";
 import { logger } from "~/server/lib/logger";
+import {
+	DEFAULT_BOT_MODEL,
+	estimateCost,
+	getModelContextLength,
+	getModelPricing,
+	modelSupportsTools,
+	modelSupportsVision,
+} from "~/server/lib/models";
+import { decryptSecret } from "~/server/lib/secrets";
 
 const botLogger = logger.child({ name: "Bots" });
 
+// Upper bound on model ↔ tool round trips for a single reply
+const MAX_TOOL_ROUNDS = 5;
+
+// Bot responses currently streaming on this server instance, by intention ID
+const inFlightResponses = new Map<IntentionId, AbortController>();
+
+// Streamed text is batched into one delta per interval, and persisted less often
+const DELTA_INTERVAL_MS = 100;
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+const serverSync = new ServerSync();
+
+/**
+ * Sends text appended to a streaming intention as numbered `intention-delta`
+ * sync events, so clients can patch their caches instead of refetching
+ */
+class DeltaBroadcaster {
+	seq = 0; // Last sequence number sent
+	private pending = "";
+	private lastSentAt = 0;
+
+	constructor(
+		private spaceId: BeingId,
+		private intentionId: IntentionId,
+		private attempt: number,
+	) {}
+
+	async push(text: string): Promise<void> {
+		this.pending += text;
+		if (Date.now() - this.lastSentAt >= DELTA_INTERVAL_MS) {
+			await this.flush();
+		}
+	}
+
+	async flush(): Promise<void> {
+		if (!this.pending) return;
+
+		const text = this.pending;
+		this.pending = "";
+		this.seq++;
+		this.lastSentAt = Date.now();
+
+		try {
+			await serverSync.broadcast({
+				type: "intention-delta",
+				data: {
+					id: this.intentionId,
+					attempt: this.attempt,
+					seq: this.seq,
+					text,
+				},
+				timestamp: new Date().toISOString(),
+				locationId: this.spaceId,
+			});
+		} catch (error) {
+			// Clients skip the gap and catch up at the next checkpoint
+			botLogger.warn(
+				{ intentionId: this.intentionId, seq: this.seq, error },
+				"Failed to broadcast intention delta",
+			);
+		}
+	}
+}
+
+/**
+ * Wake the bots in a space that should reply to an intention.
+ *
+ * `depth` counts bot-to-bot hops: 0 for a human message, +1 each time a bot
+ * reply triggers another round. Rounds stop at the space's reply depth limit.
+ */
 export async function activateBots(
 	spaceId: BeingId,
 	activatingIntentionId: IntentionId,
+	depth = 0,
 ): Promise<void> {
 	botLogger.info(
-		{ spaceId, activatingIntentionId },
+		{ spaceId, activatingIntentionId, depth },
 		"Activating bots in space",
 	);
 
+	const trigger = await services.intention.getIntention(activatingIntentionId);
+	if (!trigger) {
+		botLogger.error(
+			{ activatingIntentionId },
+			"Triggering intention not found",
+		);
+		return;
+	}
+
 	// Find all bots in the space
-	const botsInSpace = await db
-		.select({ id: beings.id })
-		.from(beings)
-		.where(and(eq(beings.locationId, spaceId), eq(beings.type, "bot")));
+	const botsInSpace = await db.query.beings.findMany({
+		where: and(eq(beings.locationId, spaceId), eq(beings.type, "bot")),
+	});
+
+	const spaceRaw = await db.query.beings.findFirst({
+		where: eq(beings.id, spaceId),
+	});
+	const space = spaceRaw ? selectBeingSchema.parse(spaceRaw) : null;
+
+	const { responders: direct, fallbacks } = selectRespondingBots(
+		botsInSpace.map((bot) => selectBeingSchema.parse(bot)),
+		trigger,
+	);
+
+	// Bots (or spaces) that have spent their budget stay quiet
+	const isWithinBudget = async (bot: Being): Promise<boolean> => {
+		const exceeded = await services.usage.getExceededBudget(bot, space);
+		if (!exceeded) return true;
+		botLogger.warn(
+			{ botId: bot.id, spaceId, reason: exceeded },
+			"Budget exceeded, not activating bot",
+		);
+		return false;
+	};
+
+	const responders: Being[] = [];
+	for (const bot of direct) {
+		if (await isWithinBudget(bot)) responders.push(bot);
+	}
+
+	// With no direct responder left, the first fallback that can answer does
+	const nextFallback = async (): Promise<Being | undefined> => {
+		for (let bot = fallbacks.shift(); bot; bot = fallbacks.shift()) {
+			if (await isWithinBudget(bot)) return bot;
+		}
+		return undefined;
+	};
+	const usesFallback = responders.length === 0;
+	if (usesFallback) {
+		const fallback = await nextFallback();
+		if (fallback) responders.push(fallback);
+	}
+
+	// Someone flooding the space wakes nobody; bot-to-bot rounds are bounded by depth instead
+	const noticeBot = responders[0];
+	if (
+		depth === 0 &&
+		noticeBot &&
+		(await isUserThrottled(
+			trigger.ownerId as BeingId,
+			space,
+			spaceId,
+			noticeBot,
+		))
+	) {
+		return;
+	}
 
 	botLogger.info(
-		{ spaceId, botCount: botsInSpace.length },
-		"Found bots to activate",
+		{
+			spaceId,
+			botCount: botsInSpace.length,
+			responders: responders.map((bot) => bot.id),
+		},
+		"Selected bots to activate",
 	);
 
-	// Activate each bot
-	for (const bot of botsInSpace) {
-		activateBot(bot.id as BeingId, spaceId, activatingIntentionId).catch(
-			(error) =>
-				botLogger.error(
-					{ error, botId: bot.id, spaceId },
-					"Bot activation failed",
-				),
+	// Activate each selected bot; a throttled fallback hands over to the next
+	// one quietly, and only says it's sitting out when no fallback is left
+	for (let i = 0; i < responders.length; i++) {
+		const bot = responders[i];
+		if (!bot) continue;
+		const throttled = await takeBotToken(bot, space, spaceId);
+		if (throttled) {
+			const next = usesFallback ? await nextFallback() : undefined;
+			if (next) responders.push(next);
+			else await throttled.postNotice();
+			continue;
+		}
+		activateBot(bot.id, spaceId, activatingIntentionId, depth).catch((error) =>
+			botLogger.error(
+				{ error, botId: bot.id, spaceId },
+				"Bot activation failed",
+			),
 		);
 	}
 }
@@ -43,12 +236,19 @@ export async function activateBot(
 	botId: BeingId,
 	spaceId: BeingId,
 	triggeringIntentionId: IntentionId,
+	depth = 0,
 ): Promise<void> {
 	try {
-		botLogger.info({ botId, spaceId, triggeringIntentionId }, "Activating bot");
+		botLogger.info(
+			{ botId, spaceId, triggeringIntentionId, depth },
+			"Activating bot",
+		);
 
-		// Create AI intention for this bot
+		// Create AI intention for this bot, in the trigger's thread if it has one
 		const aiIntentionId: IntentionId = `/utterance-ai-${crypto.randomUUID()}`;
+		const trigger = await services.intention.getIntention(
+			triggeringIntentionId,
+		);
 		const { createIntention } = await import("~/lib/being-operations");
 
 		await createIntention(
@@ -60,7 +260,14 @@ export async function activateBot(
 				state: "active",
 				ownerId: botId,
 				locationId: spaceId,
+				parentId: trigger?.parentId ?? null,
 				content: [""],
+				// The trigger's sender may stop or retry this response, even when
+				// their message isn't loaded on the client
+				metadata: {
+					triggeringIntentionId,
+					triggeringOwnerId: trigger?.ownerId ?? null,
+				},
 			},
 			{
 				sessionBeingId: botId,
@@ -70,7 +277,7 @@ export async function activateBot(
 		);
 
 		// Stream the bot's response
-		await streamBotResponse(
+		const completed = await runBotResponse(
 			botId,
 			triggeringIntentionId,
 			aiIntentionId,
@@ -78,27 +285,307 @@ export async function activateBot(
 		);
 
 		botLogger.info({ botId, aiIntentionId }, "Bot activation completed");
+
+		// Let other bots answer this one, within the space's depth limit
+		if (completed) {
+			const space = await db.query.beings.findFirst({
+				where: eq(beings.id, spaceId),
+			});
+			const maxDepth = getBotReplyDepth(
+				space ? selectBeingSchema.parse(space) : null,
+			);
+			if (depth < maxDepth) {
+				await activateBots(spaceId, aiIntentionId, depth + 1);
+			}
+		}
 	} catch (error) {
 		botLogger.error({ error, botId, spaceId }, "Bot activation failed");
 	}
 }
 
-async function streamBotResponse(
+/**
+ * Stream a bot response into an existing intention, registering it so it can be cancelled
+ */
+async function runBotResponse(
 	botId: BeingId,
 	triggeringIntentionId: IntentionId,
 	aiIntentionId: IntentionId,
 	spaceId: BeingId,
+): Promise<boolean> {
+	const controller = new AbortController();
+	inFlightResponses.set(aiIntentionId, controller);
+	try {
+		return await streamBotResponse(
+			botId,
+			triggeringIntentionId,
+			aiIntentionId,
+			spaceId,
+			controller.signal,
+		);
+	} finally {
+		inFlightResponses.delete(aiIntentionId);
+	}
+}
+
+/**
+ * Abort an in-flight bot response on this server instance.
+ * Returns false if the response isn't streaming here (already finished, or another instance).
+ */
+export function cancelBotResponse(intentionId: IntentionId): boolean {
+	const controller = inFlightResponses.get(intentionId);
+	if (!controller) return false;
+	botLogger.info({ intentionId }, "Cancelling bot response");
+	controller.abort();
+	return true;
+}
+
+/**
+ * Re-run a bot reply against its original trigger, keeping the previous attempt as an alternate
+ */
+export async function regenerateBotResponse(
+	intention: Intention,
+	triggeringIntentionId: IntentionId,
 ): Promise<void> {
+	const botId = intention.ownerId as BeingId;
+	const previousAlternates = Array.isArray(intention.metadata?.alternates)
+		? intention.metadata.alternates
+		: [];
+
+	await updateBotIntention(botId, intention.id, {
+		state: "active",
+		content: [""],
+		metadata: {
+			...intention.metadata,
+			streamSeq: 0, // Deltas for the new attempt start over
+			alternates: [
+				...previousAlternates,
+				{
+					content: intention.content,
+					state: intention.state,
+					modifiedAt: intention.modifiedAt.toISOString(),
+				},
+			],
+		},
+	});
+
+	await runBotResponse(
+		botId,
+		triggeringIntentionId,
+		intention.id,
+		intention.locationId as BeingId,
+	);
+}
+
+/**
+ * Decrypt a bot's own LLM API key. Only ever called right before a provider call.
+ */
+export async function getBotApiKey(botId: BeingId): Promise<string | null> {
+	const [row] = await db
+		.select({ llmApiKey: beings.llmApiKey })
+		.from(beings)
+		.where(eq(beings.id, botId));
+	return row?.llmApiKey ? decryptSecret(row.llmApiKey) : null;
+}
+
+/**
+ * Update a bot's own intention, acting as the bot
+ */
+async function updateBotIntention(
+	botId: BeingId,
+	intentionId: IntentionId,
+	updates: Omit<UpdateIntentionInput, "id">,
+): Promise<void> {
+	const { updateIntention } = await import("~/lib/being-operations");
+
+	await updateIntention(
+		db,
+		{ id: intentionId, ...updates },
+		{
+			sessionBeingId: botId,
+			currentUser: null,
+			isCurrentUserSuperuser: false,
+		},
+	);
+}
+
+/**
+ * Write a usage ledger row for a response and return the summary stored on the intention
+ */
+async function recordBotUsage(
+	bot: Being,
+	spaceId: BeingId,
+	intentionId: IntentionId,
+	model: string,
+	usage: { promptTokens: number; completionTokens: number },
+): Promise<{
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	cost: number;
+}> {
+	const cost = estimateCost(
+		await getModelPricing(model),
+		usage.promptTokens,
+		usage.completionTokens,
+	);
+
+	await services.usage.recordUsage({
+		intentionId,
+		botId: bot.id,
+		ownerId: bot.ownerId,
+		spaceId,
+		model,
+		promptTokens: usage.promptTokens,
+		completionTokens: usage.completionTokens,
+		cost,
+	});
+
+	return { model, ...usage, cost };
+}
+
+/**
+ * Record a tool call and its result as a `tool-call` intention in the space,
+ * in the thread the bot is replying in
+ */
+async function recordToolCall(
+	botId: BeingId,
+	spaceId: BeingId,
+	parentId: IntentionId | null,
+	call: ToolCall,
+	result: ToolResult,
+): Promise<void> {
+	const { createIntention } = await import("~/lib/being-operations");
+
+	await createIntention(
+		db,
+		{
+			id: `/tool-call-${crypto.randomUUID()}`,
+			name: `Tool call ${call.function.name} by ${botId}`,
+			type: "tool-call",
+			state: result.ok ? "complete" : "failed",
+			ownerId: botId,
+			locationId: spaceId,
+			parentId,
+			content: [
+				{
+					type: "tool-call",
+					props: {
+						toolCallId: call.id,
+						name: call.function.name,
+						arguments: call.function.arguments,
+						...(result.ok
+							? { result: result.result }
+							: { error: result.error }),
+					},
+				},
+			],
+		},
+		{
+			sessionBeingId: botId,
+			currentUser: null,
+			isCurrentUserSuperuser: false,
+		},
+	);
+}
+
+/**
+ * Append streamed text to a reply, continuing its last text node or starting one after an island
+ */
+function appendReplyText(reply: ContentNode[], text: string): void {
+	const last = reply[reply.length - 1];
+	if (typeof last === "string") {
+		reply[reply.length - 1] = last + text;
+	} else {
+		reply.push(text);
+	}
+}
+
+async function streamBotResponse(
+	botId: BeingId,
+	triggeringIntentionId: IntentionId,
+	aiIntentionId: IntentionId,
+	spaceId: BeingId,
+	signal: AbortSignal,
+): Promise<boolean> {
+	const reply: ContentNode[] = [""]; // Text with any structured islands the bot emitted
+	let bot: Being | null = null;
+	let requestedModel = "";
+	let model = ""; // The model that actually answered, once one has
+	let baseMetadata: Record<string, unknown> = {};
+	const usage = { promptTokens: 0, completionTokens: 0 };
+	let thinking = ""; // Reasoning streamed by the model, across all rounds
+
+	// The round being streamed, until its tokens are added to usage
+	let openRound: {
+		messages: ChatMessage[];
+		text: string;
+		thinking: string;
+		calls: ToolCall[];
+		usageReported: boolean;
+	} | null = null;
+
+	// Providers that don't report usage, and rounds cut short, get an estimate.
+	// A cut-short round that streamed nothing most likely cost nothing.
+	const countOpenRound = (interrupted: boolean) => {
+		const round = openRound;
+		openRound = null;
+		if (!round || round.usageReported) return;
+		const output =
+			round.thinking +
+			round.text +
+			round.calls
+				.filter(Boolean)
+				.map((call) => call.function.arguments)
+				.join("");
+		if (interrupted && !output) return;
+		usage.promptTokens += round.messages.reduce(
+			(sum, message) => sum + estimateMessageTokens(message),
+			0,
+		);
+		usage.completionTokens += estimateTokens(output);
+	};
+
+	// Spend so far on an attempt that didn't complete, recorded so budgets see it
+	const recordPartialUsage = async () => {
+		countOpenRound(true);
+		if (!bot || (usage.promptTokens === 0 && usage.completionTokens === 0)) {
+			return undefined;
+		}
+		try {
+			return await recordBotUsage(
+				bot,
+				spaceId,
+				aiIntentionId,
+				model || requestedModel,
+				usage,
+			);
+		} catch (error) {
+			botLogger.error(
+				{ error, aiIntentionId },
+				"Could not record usage of an unfinished response",
+			);
+			return undefined;
+		}
+	};
+
+	// The reply as stored: reasoning goes first, as a thinking island, unless the bot keeps none
+	const replyContent = (): ContentNode[] => {
+		const visibility = bot ? getThinkingVisibility(bot) : "none";
+		if (!bot || visibility === "none" || !thinking) return reply;
+		return [thinkingIsland(bot, visibility, thinking), ...reply];
+	};
+
 	try {
 		// Load the bot being
-		const bot = await db.query.beings.findFirst({
+		const botRaw = await db.query.beings.findFirst({
 			where: eq(beings.id, botId),
 		});
 
-		if (!bot) {
+		if (!botRaw) {
 			botLogger.error({ botId }, "Bot not found");
-			return;
+			return false;
 		}
+		bot = selectBeingSchema.parse(botRaw);
 
 		// Load the triggering intention
 		const triggeringIntention = await db.query.intentions.findFirst({
@@ -110,7 +597,7 @@ async function streamBotResponse(
 				{ triggeringIntentionId },
 				"Triggering intention not found",
 			);
-			return;
+			return false;
 		}
 
 		botLogger.info(
@@ -119,334 +606,243 @@ async function streamBotResponse(
 		);
 
 		// Use bot's model or default to a known working free model
-		const model = bot.botModel ?? "meta-llama/llama-3.1-8b-instruct:free";
-
-		// Build messages array with bot's system prompt if available
-		const messages: Array<{ role: string; content: string }> = [];
-		if (bot.botPrompt) {
-			messages.push({ role: "system", content: bot.botPrompt });
-		}
-		const userContent = Array.isArray(triggeringIntention.content)
-			? triggeringIntention.content[0]
-			: triggeringIntention.content;
-		messages.push({ role: "user", content: String(userContent ?? "") });
-
-		// Determine the API key
-		const apiKey = bot.llmApiKey ?? env.OPENROUTER_API_KEY;
-
-		// Check if API key is empty or missing
-		if (!apiKey || apiKey.trim() === "") {
-			const errorMessage =
-				"LLM API key is missing or empty. Please configure OPENROUTER_API_KEY in your environment or provide an API key for the bot.";
-			botLogger.error({ botId }, errorMessage);
-
-			// Update the intention with the error
-			const { updateIntention } = await import("~/lib/being-operations");
-
-			await updateIntention(
-				db,
-				{
-					id: aiIntentionId,
-					state: "failed",
-					content: [errorMessage],
-				},
-				{
-					sessionBeingId: botId,
-					currentUser: null,
-					isCurrentUserSuperuser: false,
-				},
+		requestedModel = bot.botModel || DEFAULT_BOT_MODEL;
+		model = requestedModel;
+		if (!bot.botModel) {
+			botLogger.info(
+				{ botId: bot.id, model },
+				"Bot has no model configured, using the default",
 			);
-
-			return;
 		}
+		baseMetadata =
+			(await services.intention.getIntention(aiIntentionId))?.metadata ?? {};
 
-		const requestBody = {
-			model,
-			messages,
-			stream: true,
-		};
-
-		botLogger.info(
-			{ aiIntentionId, model, requestBody },
-			"Making OpenRouter API request",
+		// Build messages from the bot's prompt and the conversation so far
+		const contextLength = await getModelContextLength(model);
+		const messages = await buildConversationContext(
+			db,
+			bot,
+			spaceId,
+			selectIntentionSchema.parse(triggeringIntention),
+			contextLength,
+			{ supportsVision: await modelSupportsVision(model) },
 		);
 
-		const response = await fetch(
-			"https://openrouter.ai/api/v1/chat/completions",
-			{
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${apiKey}`,
-					"Content-Type": "application/json",
-					"HTTP-Referer": "http://localhost:3000",
-					"X-Title": "Rhiz.om",
-				},
-				body: JSON.stringify(requestBody), // External API - must use standard JSON
-			},
-		);
+		// Resolve the provider (throws if it can't be used, e.g. missing API key)
+		const provider = getLlmProvider(bot, await getBotApiKey(botId));
+		// Structured islands go through the function-calling channel, so only tool-capable models get them
+		const tools = [
+			...toolRegistry.definitions(getEnabledToolNames(bot)),
+			...((await modelSupportsTools(model)) ? islandToolDefinitions() : []),
+		];
+		const toolContext: ToolContext = {
+			bot,
+			spaceId,
+			auth: await services.auth.getAuthContext(botId),
+		};
 
 		botLogger.info(
 			{
 				aiIntentionId,
-				status: response.status,
-				statusText: response.statusText,
+				model,
+				provider: provider.name,
+				toolCount: tools.length,
 			},
-			"Got OpenRouter API response",
+			"Starting LLM stream",
 		);
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			// Parse error for logging to help with debugging
-			let parsedError;
-			try {
-				parsedError = JSON.parse(errorText);
-			} catch {
-				parsedError = { raw: errorText };
-			}
-
-			botLogger.error(
+		const retryPolicy = getRetryPolicy(bot);
+		const deltas = new DeltaBroadcaster(
+			spaceId,
+			aiIntentionId,
+			streamAttempt(baseMetadata),
+		);
+		let lastCheckpointAt = Date.now();
+
+		// Each round streams one completion; tool calls feed results into the next round
+		for (let roundIndex = 0; roundIndex < MAX_TOOL_ROUNDS; roundIndex++) {
+			const round = {
+				messages,
+				text: "",
+				thinking: "",
+				calls: [] as ToolCall[],
+				usageReported: false,
+			};
+			openRound = round;
+			const pendingCalls = round.calls;
+
+			// Later rounds stay on whichever model answered the first
+			for await (const event of streamChatWithRetry(
+				provider,
+				{ model, messages, tools: tools.length > 0 ? tools : undefined },
+				retryPolicy,
 				{
-					aiIntentionId,
-					status: response.status,
-					errorText,
-					parsedError,
-				},
-				"OpenRouter API error response",
-			);
-
-			// Try to parse error as JSON for more structured error info
-			let errorDetails = errorText;
-			try {
-				const errorJson = JSON.parse(errorText);
-
-				// Extract nested error details with provider information
-				if (errorJson.error) {
-					const error = errorJson.error;
-					const parts: string[] = [];
-
-					// Main error message
-					if (error.message) {
-						parts.push(error.message);
-					}
-
-					// Add provider-specific details if available
-					if (error.metadata) {
-						if (error.metadata.provider_name) {
-							parts.push(`Provider: ${error.metadata.provider_name}`);
-						}
-
-						// If there's a raw HTML error, try to extract the meaningful part
-						if (error.metadata.raw && typeof error.metadata.raw === "string") {
-							const htmlMatch = error.metadata.raw.match(
-								/<title>(.*?)<\/title>/,
+					signal,
+					onModel: (answered, attempts) => {
+						if (answered !== model || attempts > 1) {
+							botLogger.info(
+								{ aiIntentionId, requestedModel, answered, attempts },
+								"Bot answered after retries",
 							);
-							if (htmlMatch) {
-								parts.push(`Raw error: ${htmlMatch[1]}`);
-							} else if (error.metadata.raw.length < 200) {
-								// Only include short raw errors to avoid HTML spam
-								parts.push(`Raw: ${error.metadata.raw.trim()}`);
-							}
 						}
-					}
-
-					// Add error code if different from HTTP status
-					if (error.code && error.code !== response.status) {
-						parts.push(`Code: ${error.code}`);
-					}
-
-					errorDetails = parts.length > 0 ? parts.join(" | ") : errorText;
-				} else if (errorJson.message) {
-					errorDetails = errorJson.message;
-				}
-			} catch {
-				// If parsing fails, use the raw text
-			}
-
-			throw new Error(
-				`OpenRouter API error (${response.status}): ${errorDetails}`,
-			);
-		}
-
-		if (!response.body) {
-			throw new Error("Response body is null");
-		}
-
-		botLogger.info(
-			{ aiIntentionId },
-			"Got response body, starting stream processing",
-		);
-
-		const reader = response.body.getReader();
-		const decoder = new TextDecoder();
-		let fullResponse = "";
-		let lastUpdateTime = Date.now();
-		let tokensReceived = 0;
-		const UPDATE_INTERVAL = 500; // Update every 500ms during streaming
-
-		while (true) {
-			const { done, value } = await reader.read();
-			if (done) {
-				botLogger.info(
-					{
-						aiIntentionId,
-						tokensReceived,
-						responseLength: fullResponse.length,
+						model = answered;
 					},
-					"Stream reading completed",
-				);
-				break;
-			}
-
-			const chunk = decoder.decode(value, { stream: true });
-			botLogger.debug(
-				{
-					aiIntentionId,
-					chunkLength: chunk.length,
-					chunk: chunk.substring(0, 200),
 				},
-				"Received chunk from stream",
-			);
-
-			// Handle different possible line endings and data formats
-			const lines = chunk
-				.split(/\r?\n/)
-				.filter(
-					(line) =>
-						line.trim().startsWith("data: ") || line.trim() === "data: [DONE]",
-				);
-
-			botLogger.debug(
-				{ aiIntentionId, linesCount: lines.length },
-				"Parsed lines from chunk",
-			);
-
-			for (const line of lines) {
-				const jsonStr = line.replace("data: ", "").trim();
-				if (jsonStr === "[DONE]") {
-					botLogger.info({ aiIntentionId }, "Received [DONE] signal");
-					break;
+			)) {
+				if (event.type === "tool-call-delta") {
+					const call = pendingCalls[event.index] ?? {
+						id: "",
+						type: "function",
+						function: { name: "", arguments: "" },
+					};
+					pendingCalls[event.index] = call;
+					if (event.id) call.id = event.id;
+					if (event.name) call.function.name += event.name;
+					if (event.arguments) call.function.arguments += event.arguments;
+					continue;
 				}
 
-				if (!jsonStr) continue;
-
-				try {
-					const parsed = JSON.parse(jsonStr); // External API response - standard JSON
-					const token = parsed.choices?.[0]?.delta?.content;
-
-					if (token) {
-						tokensReceived++;
-						fullResponse += token;
-						// Token updates handled via intention updates
-
-						// Update the database periodically during streaming to show partial content
-						const now = Date.now();
-						if (now - lastUpdateTime > UPDATE_INTERVAL) {
-							botLogger.debug(
-								{
-									aiIntentionId,
-									currentLength: fullResponse.length,
-									tokensReceived,
-								},
-								"Updating database with partial response",
-							);
-
-							const { updateIntention } = await import(
-								"~/lib/being-operations"
-							);
+				if (event.type === "usage") {
+					usage.promptTokens += event.promptTokens;
+					usage.completionTokens += event.completionTokens;
+					round.usageReported = true;
+					continue;
+				}
 
-							await updateIntention(
-								db,
-								{
-									id: aiIntentionId,
-									content: [fullResponse],
-								},
-								{
-									sessionBeingId: botId,
-									currentUser: null,
-									isCurrentUserSuperuser: false,
-								},
-							);
+				if (event.type === "reasoning") {
+					// Not broadcast as deltas; clients see it at the next checkpoint
+					if (thinking && !round.thinking) thinking += "\n\n"; // A later round's reasoning
+					thinking += event.text;
+					round.thinking += event.text;
+				} else {
+					round.text += event.text;
+					appendReplyText(reply, event.text);
+					await deltas.push(event.text);
+				}
 
-							lastUpdateTime = now;
-						}
-					} else {
-						botLogger.debug(
-							{ aiIntentionId, parsed },
-							"Received non-content delta",
-						);
-					}
-				} catch (error) {
+				// Checkpoint partial content now and then, for clients joining mid-stream
+				if (Date.now() - lastCheckpointAt > CHECKPOINT_INTERVAL_MS) {
+					await deltas.flush();
 					botLogger.debug(
 						{
 							aiIntentionId,
-							jsonStr,
-							error: error instanceof Error ? error.message : "unknown",
+							nodeCount: reply.length,
+							seq: deltas.seq,
 						},
-						"Failed to parse JSON from stream line",
+						"Checkpointing partial response",
 					);
+
+					await updateBotIntention(botId, aiIntentionId, {
+						content: replyContent(),
+						metadata: { ...baseMetadata, streamSeq: deltas.seq },
+					});
+
+					lastCheckpointAt = Date.now();
 				}
 			}
+
+			await deltas.flush();
+			const toolCalls = pendingCalls.filter(Boolean);
+			countOpenRound(false);
+
+			if (toolCalls.length === 0) break;
+
+			messages.push({
+				role: "assistant",
+				content: round.text,
+				tool_calls: toolCalls,
+			});
+
+			for (const call of toolCalls) {
+				if (isIslandToolCall(call)) {
+					const result = islandFromToolCall(call);
+					if (result.ok) {
+						reply.push(result.island);
+						// Checkpoint so clients pick up the island; later deltas start a new text node
+						await updateBotIntention(botId, aiIntentionId, {
+							content: replyContent(),
+							metadata: { ...baseMetadata, streamSeq: deltas.seq },
+						});
+						lastCheckpointAt = Date.now();
+					}
+					messages.push({
+						role: "tool",
+						tool_call_id: call.id,
+						content: JSON.stringify(result.ok ? { shown: true } : result),
+					});
+					continue;
+				}
+
+				botLogger.info(
+					{ aiIntentionId, tool: call.function.name },
+					"Running bot tool call",
+				);
+				const result = await toolRegistry.execute(call, toolContext);
+				await recordToolCall(
+					botId,
+					spaceId,
+					triggeringIntention.parentId,
+					call,
+					result,
+				);
+				messages.push({
+					role: "tool",
+					tool_call_id: call.id,
+					content: JSON.stringify(result.ok ? result.result : result),
+				});
+			}
 		}
 
 		botLogger.info(
-			{ aiIntentionId, responseLength: fullResponse.length },
+			{ aiIntentionId, nodeCount: reply.length },
 			"Bot streaming completed, updating database",
 		);
 
-		const { updateIntention } = await import("~/lib/being-operations");
-
-		await updateIntention(
-			db,
-			{
-				id: aiIntentionId,
-				content: [fullResponse],
-				state: "complete",
+		await updateBotIntention(botId, aiIntentionId, {
+			content: replyContent(),
+			state: "complete",
+			metadata: {
+				...baseMetadata,
+				model,
+				requestedModel: model !== requestedModel ? requestedModel : undefined,
+				usage: await recordBotUsage(bot, spaceId, aiIntentionId, model, usage),
 			},
-			{
-				sessionBeingId: botId,
-				currentUser: null,
-				isCurrentUserSuperuser: false,
-			},
-		);
+		});
 
 		// Completion handled via intention update
 		botLogger.info({ aiIntentionId }, "Bot response stream fully completed");
+		return true;
 	} catch (error) {
-		botLogger.error(error, "Bot response generation failed");
-
-		// Extract detailed error message
-		let errorMessage = "Failed to get response from AI";
-
-		if (error instanceof Error) {
-			errorMessage = error.message;
-
-			// If this is an HTTP error with a response body, include it
-			if (error.message.includes("OpenRouter API error:")) {
-				errorMessage = error.message;
-			}
-		} else if (typeof error === "string") {
-			errorMessage = error;
-		} else if (error && typeof error === "object" && "message" in error) {
-			errorMessage = String(error.message);
+		// Cancelled by a user - keep whatever was streamed so far
+		if (signal.aborted) {
+			botLogger.info({ aiIntentionId }, "Bot response cancelled");
+			const partialUsage = await recordPartialUsage();
+			await updateBotIntention(botId, aiIntentionId, {
+				state: "cancelled",
+				content: replyContent(),
+				metadata: bot ? { ...baseMetadata, usage: partialUsage } : undefined,
+			});
+			return false;
 		}
 
-		// Error will be visible via intention update
+		botLogger.error(error, "Bot response generation failed");
 
-		// Store the detailed error in the database
-		const { updateIntention } = await import("~/lib/being-operations");
+		// Provider errors are written to be shown; anything else (e.g. a failed
+		// connection) may describe the server's network, so it stays in the log
+		const errorMessage =
+			error instanceof LlmProviderError
+				? error.message
+				: "Failed to get response from AI";
 
-		await updateIntention(
-			db,
-			{
-				id: aiIntentionId,
-				state: "failed",
-				content: [errorMessage],
-			},
-			{
-				sessionBeingId: botId,
-				currentUser: null,
-				isCurrentUserSuperuser: false,
-			},
-		);
+		// Error will be visible via intention update
+		const partialUsage = await recordPartialUsage();
+		await updateBotIntention(botId, aiIntentionId, {
+			state: "failed",
+			content: [errorMessage],
+			metadata: partialUsage
+				? { ...baseMetadata, usage: partialUsage }
+				: undefined,
+		});
+		return false;
 	}
 }
@@ -0,0 +1,145 @@
+/**
+ * Minimal five-field cron matching (minute hour day-of-month month day-of-week).
+ * Supports `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*\/15`, `0-30/10`).
+ * Day-of-week is 0-6 with Sunday as 0 (7 is also accepted as Sunday).
+ */
+
+const FIELD_RANGES = [
+	{ min: 0, max: 59 }, // minute
+	{ min: 0, max: 23 }, // hour
+	{ min: 1, max: 31 }, // day of month
+	{ min: 1, max: 12 }, // month
+	{ min: 0, max: 7 }, // day of week
+] as const;
+
+type CronFields = [
+	Set<number>,
+	Set<number>,
+	Set<number>,
+	Set<number>,
+	Set<number>,
+];
+
+function parseField(field: string, min: number, max: number): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of field.split(",")) {
+		const [rangePart, stepPart] = part.split("/");
+		const step = stepPart === undefined ? 1 : Number(stepPart);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid step "${stepPart}"`);
+		}
+
+		let start = min;
+		let end = max;
+		if (rangePart !== "*") {
+			const [from, to] = (rangePart ?? "").split("-");
+			start = Number(from);
+			end =
+				to === undefined ? (stepPart === undefined ? start : max) : Number(to);
+		}
+		if (
+			!Number.isInteger(start) ||
+			!Number.isInteger(end) ||
+			start < min ||
+			end > max ||
+			start > end
+		) {
+			throw new Error(`Invalid range "${part}"`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parse a cron expression, throwing on anything malformed
+ */
+export function parseCron(expression: string): CronFields {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(
+			`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`,
+		);
+	}
+
+	const parsed = fields.map((field, i) => {
+		const range = FIELD_RANGES[i];
+		if (!range) throw new Error(`Unexpected cron field "${field}"`);
+		return parseField(field, range.min, range.max);
+	}) as CronFields;
+
+	// Sunday may be written as 7
+	if (parsed[4].delete(7)) parsed[4].add(0);
+
+	return parsed;
+}
+
+export function isValidCron(expression: string): boolean {
+	try {
+		parseCron(expression);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Wall-clock parts of a date in a time zone (UTC if none given)
+ */
+function dateParts(date: Date, timeZone = "UTC") {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			minute: "numeric",
+			hour: "numeric",
+			day: "numeric",
+			month: "numeric",
+			weekday: "short",
+		})
+			.formatToParts(date)
+			.map((part) => [part.type, part.value]),
+	);
+	const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+	return [
+		Number(parts.minute),
+		Number(parts.hour),
+		Number(parts.day),
+		Number(parts.month),
+		weekdays.indexOf(parts.weekday ?? ""),
+	];
+}
+
+/**
+ * Whether the cron expression fires in the minute containing `date`
+ */
+export function cronMatches(
+	expression: string,
+	date: Date,
+	timeZone?: string,
+): boolean {
+	const [minutes, hours, days, months, weekdays] = parseCron(expression);
+	const [minute, hour, day, month, weekday] = dateParts(date, timeZone);
+
+	if (
+		!minutes.has(minute ?? -1) ||
+		!hours.has(hour ?? -1) ||
+		!months.has(month ?? -1)
+	) {
+		return false;
+	}
+
+	// Standard cron: when both day fields are restricted, either may match
+	const dayRestricted = days.size < 31;
+	const weekdayRestricted = weekdays.size < 7;
+	if (dayRestricted && weekdayRestricted) {
+		return days.has(day ?? -1) || weekdays.has(weekday ?? -1);
+	}
+	return days.has(day ?? -1) && weekdays.has(weekday ?? -1);
+}
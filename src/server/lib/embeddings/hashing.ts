@@ -0,0 +1,36 @@
+import { createHash } from "node:crypto";
+import { EMBEDDING_DIMENSIONS, type Embedder } from "./types";
+
+/**
+ * Deterministic local embedder using the hashing trick: word unigrams and
+ * bigrams are hashed into a fixed number of signed buckets, then the vector is
+ * L2-normalised. No network and no model, so the same text always gets the
+ * same vector - used offline, in development and in tests. It only captures
+ * shared vocabulary, not meaning.
+ */
+export class HashingEmbedder implements Embedder {
+	readonly name = `hashing-${EMBEDDING_DIMENSIONS}`;
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => this.embedOne(text));
+	}
+
+	private embedOne(text: string): number[] {
+		const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+		const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+		const features = [
+			...words,
+			...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+		];
+
+		for (const feature of features) {
+			const digest = createHash("sha256").update(feature).digest();
+			const bucket = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+			const sign = (digest[4] ?? 0) & 1 ? 1 : -1;
+			vector[bucket] = (vector[bucket] ?? 0) + sign;
+		}
+
+		const norm = Math.hypot(...vector);
+		return norm === 0 ? vector : vector.map((value) => value / norm);
+	}
+}
@@ -0,0 +1,25 @@
+import { env } from "~/env";
+import { HashingEmbedder } from "./hashing";
+import { OpenAICompatibleEmbedder } from "./openai-compatible";
+import type { Embedder } from "./types";
+
+export * from "./types";
+
+const globalForEmbedder = globalThis as unknown as {
+	embedder: Embedder | undefined;
+};
+
+/**
+ * The configured embedder: an OpenAI-compatible endpoint when
+ * EMBEDDINGS_BASE_URL is set, otherwise the deterministic local fallback
+ */
+export function getEmbedder(): Embedder {
+	globalForEmbedder.embedder ??= env.EMBEDDINGS_BASE_URL
+		? new OpenAICompatibleEmbedder({
+				baseUrl: env.EMBEDDINGS_BASE_URL,
+				model: env.EMBEDDINGS_MODEL,
+				apiKey: env.EMBEDDINGS_API_KEY,
+			})
+		: new HashingEmbedder();
+	return globalForEmbedder.embedder;
+}
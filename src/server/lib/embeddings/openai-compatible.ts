@@ -0,0 +1,66 @@
+import { EMBEDDING_DIMENSIONS, type Embedder, EmbedderError } from "./types";
+
+export interface OpenAICompatibleEmbedderOptions {
+	baseUrl: string; // Without the trailing /embeddings
+	model: string;
+	apiKey?: string;
+}
+
+/**
+ * Embedder for any server speaking the OpenAI embeddings API: OpenAI,
+ * OpenRouter, Ollama, llama.cpp, vLLM...
+ */
+export class OpenAICompatibleEmbedder implements Embedder {
+	readonly name: string;
+
+	constructor(private options: OpenAICompatibleEmbedderOptions) {
+		this.name = `${options.model}-${EMBEDDING_DIMENSIONS}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		if (texts.length === 0) return [];
+
+		const response = await fetch(
+			`${this.options.baseUrl.replace(/\/$/, "")}/embeddings`,
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...(this.options.apiKey
+						? { Authorization: `Bearer ${this.options.apiKey}` }
+						: {}),
+				},
+				body: JSON.stringify({
+					model: this.options.model,
+					input: texts,
+					dimensions: EMBEDDING_DIMENSIONS,
+				}),
+			},
+		);
+
+		if (!response.ok) {
+			throw new EmbedderError(
+				`Embedding request failed: ${response.status} ${await response.text()}`,
+				response.status,
+			);
+		}
+
+		const body = (await response.json()) as {
+			data?: { index: number; embedding: number[] }[];
+		};
+		const vectors = [...(body.data ?? [])]
+			.sort((a, b) => a.index - b.index)
+			.map((item) => item.embedding);
+
+		if (
+			vectors.length !== texts.length ||
+			vectors.some((vector) => vector.length !== EMBEDDING_DIMENSIONS)
+		) {
+			throw new EmbedderError(
+				`Embedding model ${this.options.model} must return ${texts.length} vectors of ${EMBEDDING_DIMENSIONS} dimensions`,
+			);
+		}
+
+		return vectors;
+	}
+}
@@ -0,0 +1,25 @@
+/**
+ * Dimension of every stored embedding. Remote models are asked to return
+ * vectors of this size so the `vector` column and its index stay fixed.
+ */
+export const EMBEDDING_DIMENSIONS = 512;
+
+export class EmbedderError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+	) {
+		super(message);
+		this.name = "EmbedderError";
+	}
+}
+
+/**
+ * Turns text into vectors for semantic search. Vectors from different
+ * embedders aren't comparable, so rows are tagged with `name` and only
+ * searched with the embedder that produced them.
+ */
+export interface Embedder {
+	readonly name: string;
+	embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,44 @@
+import { and, eq, isNotNull } from "drizzle-orm";
+import { db } from "~/server/db";
+import { beings } from "~/server/db/schema";
+import {
+	encryptSecret,
+	isEncryptedSecret,
+	secretHint,
+} from "~/server/lib/secrets";
+
+/**
+ * One-off backfill for LLM API keys saved before they were encrypted
+ * (drizzle/0007): encrypt each plaintext key in place, or clear it if blank.
+ * Stored keys must be encrypted before bots can use them, so run this once
+ * after migrating: `npm run db:encrypt-keys`. Safe to run again.
+ */
+export async function main(): Promise<number> {
+	const rows = await db
+		.select({ id: beings.id, llmApiKey: beings.llmApiKey })
+		.from(beings)
+		.where(isNotNull(beings.llmApiKey));
+
+	let encrypted = 0;
+	for (const row of rows) {
+		if (!row.llmApiKey || isEncryptedSecret(row.llmApiKey)) continue;
+
+		const trimmed = row.llmApiKey.trim();
+		await db
+			.update(beings)
+			.set(
+				trimmed
+					? {
+							llmApiKey: encryptSecret(trimmed),
+							llmApiKeyLast4: secretHint(trimmed),
+						}
+					: { llmApiKey: null, llmApiKeyLast4: null },
+			)
+			// Skip a key the owner replaced in the meantime
+			.where(and(eq(beings.id, row.id), eq(beings.llmApiKey, row.llmApiKey)));
+		encrypted++;
+	}
+
+	console.log(`Encrypted ${encrypted} stored LLM API key(s)`);
+	return 0;
+}
@@ -63,6 +63,16 @@ export async function createJoinToken(opts: JoinTokenOptions) {
 	};
 }
 
+/**
+ * Identities (being IDs) of everyone currently connected to a room
+ */
+export async function listRoomParticipantIds(
+	roomId: string,
+): Promise<string[]> {
+	const participants = await roomService.listParticipants(roomId);
+	return participants.map((participant) => participant.identity);
+}
+
 export interface BroadcastOptions {
 	roomId: string; // Being ID for the room
 	text: string; // Message content
@@ -0,0 +1,182 @@
+import { lookup as lookupCallback } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, type LookupFunction, isIP } from "node:net";
+import { Readable } from "node:stream";
+import { env } from "~/env";
+import { LlmProviderError } from "./types";
+
+// Loopback, private, link-local (cloud metadata lives here) and other non-public ranges
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10], // Carrier-grade NAT
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24], // IETF protocol assignments
+	["192.0.2.0", 24], // Documentation
+	["192.168.0.0", 16],
+	["198.18.0.0", 15], // Benchmarking
+	["198.51.100.0", 24], // Documentation
+	["203.0.113.0", 24], // Documentation
+	["224.0.0.0", 4], // Multicast
+	["240.0.0.0", 4], // Reserved, and broadcast
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 127], // Unspecified and loopback
+	["64:ff9b::", 96], // NAT64, which can reach any IPv4 address
+	["100::", 64], // Discard
+	["2001:db8::", 32], // Documentation
+	["2002::", 16], // 6to4, which embeds an IPv4 address
+	["fc00::", 7],
+	["fe80::", 10],
+	["ff00::", 8], // Multicast
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string, family: number): boolean {
+	return privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+function privateNetworkError(hostname: string): LlmProviderError {
+	return new LlmProviderError(
+		`LLM server ${hostname} is on a private network; add it to LLM_ALLOWED_HOSTS to use it`,
+	);
+}
+
+/**
+ * Hosts from LLM_ALLOWED_HOSTS, or null when it isn't set
+ */
+function getAllowedHosts(): string[] | null {
+	if (!env.LLM_ALLOWED_HOSTS) return null;
+	return env.LLM_ALLOWED_HOSTS.split(",")
+		.map((host) => host.trim().toLowerCase())
+		.filter(Boolean);
+}
+
+/**
+ * Refuse a bot's base URL unless the server may send requests there: with
+ * LLM_ALLOWED_HOSTS set, only the hosts it lists; otherwise any host that
+ * resolves to public addresses only. Bot owners choose these URLs, so they
+ * mustn't reach the server's own network.
+ */
+export async function assertAllowedBaseUrl(baseUrl: string): Promise<void> {
+	const url = new URL(baseUrl);
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new LlmProviderError(
+			`LLM base URL must be http or https: ${baseUrl}`,
+		);
+	}
+	const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+	const allowedHosts = getAllowedHosts();
+	if (allowedHosts) {
+		if (allowedHosts.includes(hostname)) return;
+		throw new LlmProviderError(
+			`LLM server ${hostname} is not in the server's allowed hosts`,
+		);
+	}
+
+	let addresses: { address: string; family: number }[];
+	try {
+		addresses = isIP(hostname)
+			? [{ address: hostname, family: isIP(hostname) }]
+			: await lookup(hostname, { all: true });
+	} catch {
+		throw new LlmProviderError(`Could not resolve LLM server ${hostname}`);
+	}
+	if (
+		addresses.some(({ address, family }) => isPrivateAddress(address, family))
+	) {
+		throw privateNetworkError(hostname);
+	}
+}
+
+/**
+ * DNS lookup for the connection itself that refuses private addresses, so
+ * the address checked is the address connected to
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+	lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) {
+			callback(error, "");
+			return;
+		}
+		if (
+			addresses.some(({ address, family }) => isPrivateAddress(address, family))
+		) {
+			callback(privateNetworkError(hostname), "");
+			return;
+		}
+		const [first] = addresses;
+		if (options.all || !first) callback(null, addresses);
+		else callback(null, first.address, first.family);
+	});
+};
+
+export interface AllowedHostRequest {
+	method: string;
+	headers: Record<string, string>;
+	body: string;
+	signal?: AbortSignal;
+}
+
+/**
+ * Send a request to a bot's base URL the way fetch would, except that the
+ * host is only resolved once, by a lookup that refuses private addresses, so
+ * the name can't be re-pointed between the check and the connection.
+ * Redirects aren't followed. Fails like fetch does: a TypeError when the
+ * connection fails, an LlmProviderError when the host isn't allowed.
+ */
+export async function fetchFromAllowedHost(
+	url: string,
+	init: AllowedHostRequest,
+): Promise<Response> {
+	await assertAllowedBaseUrl(url);
+	const target = new URL(url);
+	const request = target.protocol === "https:" ? httpsRequest : httpRequest;
+	// Hosts the operator allowed by name may be private on purpose
+	const lookupOption =
+		getAllowedHosts() === null ? { lookup: publicOnlyLookup } : {};
+
+	return new Promise((resolve, reject) => {
+		const req = request(
+			target,
+			{
+				method: init.method,
+				headers: init.headers,
+				signal: init.signal,
+				...lookupOption,
+			},
+			(res) => {
+				const headers = new Headers();
+				for (const [name, value] of Object.entries(res.headers)) {
+					for (const item of [value ?? []].flat()) headers.append(name, item);
+				}
+				const status = res.statusCode ?? 502;
+				resolve(
+					new Response(
+						status === 204 || status === 304
+							? null
+							: (Readable.toWeb(res) as ReadableStream<Uint8Array>),
+						{ status, statusText: res.statusMessage, headers },
+					),
+				);
+			},
+		);
+		req.on("error", (error) =>
+			reject(
+				error instanceof LlmProviderError || error.name === "AbortError"
+					? error
+					: new TypeError("fetch failed", { cause: error }),
+			),
+		);
+		req.end(init.body);
+	});
+}
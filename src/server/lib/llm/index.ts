@@ -0,0 +1,87 @@
+import { env } from "~/env";
+import type { Being } from "~/server/db/types";
+import { MockLlmProvider } from "./mock";
+import {
+	OpenAICompatibleProvider,
+	createOpenRouterProvider,
+} from "./openai-compatible";
+import {
+	type LlmProvider,
+	type LlmProviderConfig,
+	LlmProviderError,
+	llmProviderConfigSchema,
+} from "./types";
+
+export * from "./types";
+export { assertAllowedBaseUrl } from "./base-url";
+export {
+	type RetryPolicy,
+	getRetryPolicy,
+	retryPolicySchema,
+	streamChatWithRetry,
+} from "./retry";
+
+/**
+ * Read a bot's provider configuration from `properties.llmProvider`, defaulting to OpenRouter
+ */
+export function getLlmProviderConfig(
+	bot: Pick<Being, "id"> & { properties?: Being["properties"] },
+): LlmProviderConfig {
+	const raw = bot.properties?.llmProvider;
+	if (raw === undefined || raw === null) {
+		return { type: "openrouter" };
+	}
+
+	const result = llmProviderConfigSchema.safeParse(raw);
+	if (!result.success) {
+		throw new LlmProviderError(
+			`Invalid llmProvider configuration on ${bot.id}: ${result.error.message}`,
+		);
+	}
+	return result.data;
+}
+
+/**
+ * Resolve the LLM provider a bot should talk to, given the bot's decrypted API key (if any)
+ */
+export function getLlmProvider(
+	bot: Being,
+	botApiKey?: string | null,
+): LlmProvider {
+	const config = getLlmProviderConfig(bot);
+	const apiKey = botApiKey?.trim() || undefined;
+
+	switch (config.type) {
+		case "mock":
+			return new MockLlmProvider(config.response);
+		case "openai-compatible":
+			// Self-hosted servers usually don't need a key, so only send the bot's own
+			return new OpenAICompatibleProvider({
+				name: "OpenAI-compatible",
+				baseUrl: config.baseUrl,
+				apiKey,
+				restrictHost: true,
+			});
+		case "openrouter": {
+			const openRouterKey = apiKey ?? env.OPENROUTER_API_KEY;
+			if (!openRouterKey || openRouterKey.trim() === "") {
+				throw new LlmProviderError(
+					"LLM API key is missing or empty. Please configure OPENROUTER_API_KEY in your environment or provide an API key for the bot.",
+				);
+			}
+			return createOpenRouterProvider(openRouterKey);
+		}
+	}
+}
+
+/**
+ * Provider for server-side jobs that don't act as a particular bot (e.g. summaries)
+ */
+export function getSystemLlmProvider(): LlmProvider {
+	if (!env.OPENROUTER_API_KEY || env.OPENROUTER_API_KEY.trim() === "") {
+		throw new LlmProviderError(
+			"LLM API key is missing or empty. Please configure OPENROUTER_API_KEY in your environment.",
+		);
+	}
+	return createOpenRouterProvider(env.OPENROUTER_API_KEY);
+}
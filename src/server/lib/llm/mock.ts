@@ -0,0 +1,45 @@
+import {
+	estimateMessageTokens,
+	estimateTokens,
+} from "~/server/lib/bot-context";
+import {
+	type ChatCompletionRequest,
+	type LlmProvider,
+	type LlmStreamEvent,
+	type LlmStreamOptions,
+	messageText,
+} from "./types";
+
+/**
+ * Deterministic in-process provider for offline development and tests.
+ * Replies with a fixed response, or echoes the last message, streamed word by word.
+ */
+export class MockLlmProvider implements LlmProvider {
+	readonly name = "Mock";
+
+	constructor(private response?: string) {}
+
+	async *streamChat(
+		request: ChatCompletionRequest,
+		options: LlmStreamOptions = {},
+	): AsyncGenerator<LlmStreamEvent> {
+		const lastMessage = request.messages[request.messages.length - 1];
+		const reply =
+			this.response ??
+			`Mock reply to: ${lastMessage ? messageText(lastMessage) : ""}`;
+
+		for (const word of reply.split(/(?<=\s)/)) {
+			options.signal?.throwIfAborted();
+			yield { type: "content", text: word };
+		}
+
+		yield {
+			type: "usage",
+			promptTokens: request.messages.reduce(
+				(sum, message) => sum + estimateMessageTokens(message),
+				0,
+			),
+			completionTokens: estimateTokens(reply),
+		};
+	}
+}
@@ -0,0 +1,249 @@
+import { logger } from "~/server/lib/logger";
+import { fetchFromAllowedHost } from "./base-url";
+import {
+	type ChatCompletionRequest,
+	type LlmProvider,
+	LlmProviderError,
+	type LlmStreamEvent,
+	type LlmStreamOptions,
+} from "./types";
+
+const llmLogger = logger.child({ name: "LLM" });
+
+export interface OpenAICompatibleOptions {
+	name: string;
+	baseUrl: string; // Without the trailing /chat/completions
+	apiKey?: string;
+	headers?: Record<string, string>;
+	restrictHost?: boolean; // Only connect to allowed hosts (see base-url.ts)
+}
+
+/**
+ * Turn an upstream error body into a readable message, pulling out the
+ * provider details OpenRouter nests under `error.metadata`
+ */
+function formatErrorDetails(errorText: string, status: number): string {
+	try {
+		const errorJson = JSON.parse(errorText);
+
+		if (errorJson.error) {
+			const error = errorJson.error;
+			const parts: string[] = [];
+
+			if (error.message) {
+				parts.push(error.message);
+			}
+
+			if (error.metadata) {
+				if (error.metadata.provider_name) {
+					parts.push(`Provider: ${error.metadata.provider_name}`);
+				}
+
+				// If there's a raw HTML error, try to extract the meaningful part
+				if (error.metadata.raw && typeof error.metadata.raw === "string") {
+					const htmlMatch = error.metadata.raw.match(/<title>(.*?)<\/title>/);
+					if (htmlMatch) {
+						parts.push(`Raw error: ${htmlMatch[1]}`);
+					} else if (error.metadata.raw.length < 200) {
+						// Only include short raw errors to avoid HTML spam
+						parts.push(`Raw: ${error.metadata.raw.trim()}`);
+					}
+				}
+			}
+
+			// Add error code if different from HTTP status
+			if (error.code && error.code !== status) {
+				parts.push(`Code: ${error.code}`);
+			}
+
+			return parts.length > 0 ? parts.join(" | ") : errorText;
+		}
+		if (errorJson.message) {
+			return errorJson.message;
+		}
+	} catch {
+		// If parsing fails, use the raw text
+	}
+	return errorText;
+}
+
+/**
+ * Parse a Retry-After header, which is either delay-seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+	if (!header) return undefined;
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions SSE protocol:
+ * OpenRouter, llama.cpp, Ollama, vLLM...
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+	readonly name: string;
+
+	constructor(private options: OpenAICompatibleOptions) {
+		this.name = options.name;
+	}
+
+	async *streamChat(
+		request: ChatCompletionRequest,
+		options: LlmStreamOptions = {},
+	): AsyncGenerator<LlmStreamEvent> {
+		const url = `${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+		llmLogger.info(
+			{ provider: this.name, url, model: request.model },
+			"Making chat completion request",
+		);
+
+		const init = {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...(this.options.apiKey
+					? { Authorization: `Bearer ${this.options.apiKey}` }
+					: {}),
+				...this.options.headers,
+			},
+			body: JSON.stringify({
+				...request,
+				stream: true,
+				stream_options: { include_usage: true }, // Final chunk carries token usage
+			}), // External API - must use standard JSON
+			signal: options.signal,
+		};
+		const response = this.options.restrictHost
+			? await fetchFromAllowedHost(url, init)
+			: await fetch(url, init);
+
+		if (!response.ok) {
+			// The upstream body goes to the log only; the error ends up in chat
+			const errorText = await response.text();
+			llmLogger.error(
+				{
+					provider: this.name,
+					status: response.status,
+					details: formatErrorDetails(errorText, response.status),
+					errorText,
+				},
+				"Chat completion error response",
+			);
+			throw new LlmProviderError(
+				`${this.name} API error (${response.status})`,
+				response.status,
+				parseRetryAfter(response.headers.get("retry-after")),
+			);
+		}
+
+		if (!response.body) {
+			throw new LlmProviderError("Response body is null");
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+
+			// Keep any trailing partial line for the next chunk
+			const lines = buffer.split(/\r?\n/);
+			buffer = lines.pop() ?? "";
+
+			for (const line of lines) {
+				const trimmed = line.trim();
+				if (!trimmed.startsWith("data:")) continue;
+
+				const jsonStr = trimmed.slice("data:".length).trim();
+				if (jsonStr === "[DONE]") return;
+				if (!jsonStr) continue;
+
+				let parsed: {
+					choices?: Array<{
+						delta?: {
+							content?: string | null;
+							reasoning?: string | null; // OpenRouter
+							reasoning_content?: string | null; // DeepSeek, vLLM, llama.cpp
+							tool_calls?: Array<{
+								index: number;
+								id?: string;
+								function?: { name?: string; arguments?: string };
+							}>;
+						};
+					}>;
+					usage?: { prompt_tokens?: number; completion_tokens?: number };
+				};
+				try {
+					parsed = JSON.parse(jsonStr); // External API response - standard JSON
+				} catch (error) {
+					llmLogger.debug(
+						{
+							jsonStr,
+							error: error instanceof Error ? error.message : "unknown",
+						},
+						"Failed to parse JSON from stream line",
+					);
+					continue;
+				}
+
+				if (parsed.usage) {
+					yield {
+						type: "usage",
+						promptTokens: parsed.usage.prompt_tokens ?? 0,
+						completionTokens: parsed.usage.completion_tokens ?? 0,
+					};
+				}
+
+				const delta = parsed.choices?.[0]?.delta;
+				// Some deltas carry reasoning and content together
+				const reasoning = delta?.reasoning ?? delta?.reasoning_content;
+				if (reasoning) {
+					yield { type: "reasoning", text: reasoning };
+				}
+				// ...and content and tool calls can arrive in the same delta too
+				if (delta?.content) {
+					yield { type: "content", text: delta.content };
+				}
+				for (const toolCall of delta?.tool_calls ?? []) {
+					yield {
+						type: "tool-call-delta",
+						index: toolCall.index,
+						id: toolCall.id,
+						name: toolCall.function?.name,
+						arguments: toolCall.function?.arguments,
+					};
+				}
+				if (
+					!parsed.usage &&
+					!reasoning &&
+					!delta?.content &&
+					!delta?.tool_calls?.length
+				) {
+					llmLogger.debug({ parsed }, "Received non-content delta");
+				}
+			}
+		}
+	}
+}
+
+/**
+ * OpenRouter is OpenAI-compatible, plus attribution headers
+ */
+export function createOpenRouterProvider(apiKey: string): LlmProvider {
+	return new OpenAICompatibleProvider({
+		name: "OpenRouter",
+		baseUrl: "https://openrouter.ai/api/v1",
+		apiKey,
+		headers: {
+			"HTTP-Referer": "http://localhost:3000",
+			"X-Title": "Rhiz.om",
+		},
+	});
+}
@@ -0,0 +1,173 @@
+import { z } from "zod/v4";
+import type { Being } from "~/server/db/types";
+import { logger } from "~/server/lib/logger";
+import {
+	type ChatCompletionRequest,
+	type LlmProvider,
+	LlmProviderError,
+	type LlmStreamEvent,
+	type LlmStreamOptions,
+} from "./types";
+
+const retryLogger = logger.child({ name: "LlmRetry" });
+
+// Rate limits, timeouts and upstream outages - worth another try
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Per-bot retry policy, stored in `properties.retry`. Each model in the chain
+ * (botModel, then fallbackModels in order) gets up to maxAttempts tries.
+ */
+export const retryPolicySchema = z.object({
+	maxAttempts: z.number().int().min(1).max(10).default(3),
+	baseDelayMs: z.number().int().min(0).max(60_000).default(1000),
+	maxDelayMs: z.number().int().min(0).max(300_000).default(30_000),
+	fallbackModels: z.array(z.string().min(1)).max(5).default([]),
+});
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+/**
+ * A bot's retry policy; anything missing or invalid falls back to the defaults
+ */
+export function getRetryPolicy(bot: {
+	properties?: Being["properties"];
+}): RetryPolicy {
+	const result = retryPolicySchema.safeParse(bot.properties?.retry ?? {});
+	return result.success ? result.data : retryPolicySchema.parse({});
+}
+
+/**
+ * Whether trying the same model again might work: rate limits, upstream 5xx, network failures
+ */
+export function isRetryableError(error: unknown): boolean {
+	if (error instanceof LlmProviderError) {
+		return error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+	}
+	// fetch rejects with a TypeError when the connection fails
+	return error instanceof TypeError;
+}
+
+/**
+ * Whether the next model in the chain might work: anything retryable, or the model being unavailable
+ */
+function shouldFallBack(error: unknown): boolean {
+	return (
+		isRetryableError(error) ||
+		(error instanceof LlmProviderError && error.status === 404)
+	);
+}
+
+/**
+ * How long to wait before attempt `attempt + 1`: the server's Retry-After if
+ * it sent one, otherwise exponential backoff with jitter. Null means waiting
+ * longer than the policy allows, so move on to the next model.
+ */
+export function retryDelayMs(
+	attempt: number,
+	policy: RetryPolicy,
+	error: unknown,
+): number | null {
+	if (error instanceof LlmProviderError && error.retryAfterMs !== undefined) {
+		return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+	}
+	const backoff = Math.min(
+		policy.maxDelayMs,
+		policy.baseDelayMs * 2 ** (attempt - 1),
+	);
+	return Math.round(backoff * (0.5 + Math.random() / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const timer = setTimeout(resolve, ms);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer);
+				reject(signal.reason);
+			},
+			{ once: true },
+		);
+	});
+}
+
+export interface RetryStreamOptions extends LlmStreamOptions {
+	onModel?: (model: string, attempts: number) => void; // Called once a model starts answering
+}
+
+/**
+ * Stream a completion, retrying the request model with backoff and then each
+ * fallback model in turn. Only failures before the first event are retried -
+ * once a model has started answering, its errors are final.
+ */
+export async function* streamChatWithRetry(
+	provider: LlmProvider,
+	request: ChatCompletionRequest,
+	policy: RetryPolicy,
+	options: RetryStreamOptions = {},
+): AsyncGenerator<LlmStreamEvent> {
+	const { onModel, ...streamOptions } = options;
+	const models = [
+		request.model,
+		...policy.fallbackModels.filter((model) => model !== request.model),
+	];
+	let attempts = 0;
+	let lastError: unknown;
+
+	for (const [modelIndex, model] of models.entries()) {
+		for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+			attempts++;
+			let started = false;
+			try {
+				for await (const event of provider.streamChat(
+					{ ...request, model },
+					streamOptions,
+				)) {
+					if (!started) {
+						started = true;
+						onModel?.(model, attempts);
+					}
+					yield event;
+				}
+				if (!started) onModel?.(model, attempts); // Empty but successful reply
+				return;
+			} catch (error) {
+				if (started || streamOptions.signal?.aborted) throw error;
+				lastError = error;
+
+				const delay =
+					isRetryableError(error) && attempt < policy.maxAttempts
+						? retryDelayMs(attempt, policy, error)
+						: null;
+				const canFallBack =
+					shouldFallBack(error) && modelIndex < models.length - 1;
+
+				retryLogger.warn(
+					{
+						model,
+						attempt,
+						status:
+							error instanceof LlmProviderError ? error.status : undefined,
+						error: error instanceof Error ? error.message : error,
+						retryInMs: delay,
+						fallingBack: delay === null && canFallBack,
+					},
+					"LLM request failed",
+				);
+
+				if (delay === null) {
+					if (!canFallBack) throw error;
+					break; // Next model
+				}
+				await sleep(delay, streamOptions.signal);
+			}
+		}
+	}
+
+	throw lastError;
+}
@@ -0,0 +1,116 @@
+import { z } from "zod/v4";
+
+/**
+ * A function call requested by the model (OpenAI wire format)
+ */
+export interface ToolCall {
+	id: string;
+	type: "function";
+	function: { name: string; arguments: string };
+}
+
+/**
+ * A function the model may call (OpenAI wire format)
+ */
+export interface ToolDefinition {
+	type: "function";
+	function: {
+		name: string;
+		description: string;
+		parameters: Record<string, unknown>; // JSON Schema
+	};
+}
+
+/**
+ * One part of a multimodal message (OpenAI wire format)
+ */
+export type ChatContentPart =
+	| { type: "text"; text: string }
+	| { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+	role: "system" | "user" | "assistant" | "tool";
+	content: string | ChatContentPart[]; // Parts only for user turns with images
+
+	tool_calls?: ToolCall[]; // assistant turns that called tools
+	tool_call_id?: string; // tool turns answering a call
+}
+
+/**
+ * The text of a message, leaving out any image parts
+ */
+export function messageText(message: ChatMessage): string {
+	if (typeof message.content === "string") return message.content;
+	return message.content
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.join("");
+}
+
+export interface ChatCompletionRequest {
+	model: string;
+	messages: ChatMessage[];
+	tools?: ToolDefinition[];
+}
+
+/**
+ * A single event from a streaming chat completion
+ */
+export type LlmStreamEvent =
+	| { type: "content"; text: string }
+	| { type: "reasoning"; text: string } // Reasoning models' thinking, streamed before the answer
+	| {
+			// Fragment of a tool call; fragments with the same index belong together
+			type: "tool-call-delta";
+			index: number;
+			id?: string;
+			name?: string;
+			arguments?: string;
+	  }
+	| { type: "usage"; promptTokens: number; completionTokens: number };
+
+export interface LlmStreamOptions {
+	signal?: AbortSignal;
+}
+
+/**
+ * A backend that can stream chat completions (OpenRouter, a local server, a mock...)
+ */
+export interface LlmProvider {
+	readonly name: string;
+	streamChat(
+		request: ChatCompletionRequest,
+		options?: LlmStreamOptions,
+	): AsyncGenerator<LlmStreamEvent>;
+}
+
+/**
+ * Error raised by a provider, carrying the upstream HTTP status (and any
+ * Retry-After the server asked for) when there is one
+ */
+export class LlmProviderError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+		public readonly retryAfterMs?: number,
+	) {
+		super(message);
+		this.name = "LlmProviderError";
+	}
+}
+
+/**
+ * Per-bot provider configuration, stored in `properties.llmProvider`
+ */
+export const llmProviderConfigSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("openrouter") }),
+	z.object({
+		type: z.literal("openai-compatible"),
+		baseUrl: z.string().url(), // e.g. http://localhost:11434/v1
+	}),
+	z.object({
+		type: z.literal("mock"),
+		response: z.string().optional(), // Fixed reply; defaults to echoing the last message
+	}),
+]);
+
+export type LlmProviderConfig = z.infer<typeof llmProviderConfigSchema>;
@@ -0,0 +1,303 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { env } from "~/env";
+import type {
+	Model,
+	ModelCapability,
+	ModelPricing,
+	ModelSummary,
+} from "~/lib/types/llm";
+import { db } from "~/server/db";
+import { modelCatalog } from "~/server/db/schema";
+import { logger } from "~/server/lib/logger";
+
+const modelsLogger = logger.child({ name: "Models" });
+
+// Conservative context window used when a model is unknown or the catalog is unreachable
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+
+// Model used by bots that don't set botModel
+export const DEFAULT_BOT_MODEL = "meta-llama/llama-3.1-8b-instruct:free";
+
+const CATALOG_SOURCE = "openrouter";
+const MODEL_CATALOG_TTL_MS = 1000 * 60 * 60; // 1 hour
+
+const globalForModels = globalThis as unknown as {
+	modelCache: { models: Map<string, Model>; loadedAt: number } | undefined;
+	modelCatalogLoad: Promise<Map<string, Model>> | undefined;
+};
+
+async function fetchFromOpenRouter(): Promise<Model[]> {
+	const response = await fetch("https://openrouter.ai/api/v1/models", {
+		headers: { "Content-Type": "application/json" },
+	});
+
+	if (!response.ok) {
+		throw new Error(`Failed to fetch models: ${response.statusText}`);
+	}
+
+	const data = (await response.json()) as { data: Model[] };
+	return data.data;
+}
+
+/**
+ * Read a saved copy of the OpenRouter `/models` response (or a bare array of models)
+ */
+async function loadSnapshot(snapshotPath: string): Promise<Model[]> {
+	const file = await readFile(
+		path.resolve(process.cwd(), snapshotPath),
+		"utf8",
+	);
+	const data = JSON.parse(file) as { data: Model[] } | Model[];
+	return Array.isArray(data) ? data : data.data;
+}
+
+/**
+ * Load the catalog: the offline snapshot if configured, otherwise the database
+ * cache, refreshed from OpenRouter once it is older than the TTL. A stale
+ * cache is still served if OpenRouter can't be reached.
+ */
+async function loadCatalog(): Promise<Model[]> {
+	if (env.MODEL_CATALOG_SNAPSHOT) {
+		return loadSnapshot(env.MODEL_CATALOG_SNAPSHOT);
+	}
+
+	const cached = await db.query.modelCatalog.findFirst({
+		where: eq(modelCatalog.source, CATALOG_SOURCE),
+	});
+	if (
+		cached &&
+		Date.now() - cached.fetchedAt.getTime() < MODEL_CATALOG_TTL_MS
+	) {
+		return cached.models;
+	}
+
+	try {
+		const models = await fetchFromOpenRouter();
+		const fetchedAt = new Date();
+		await db
+			.insert(modelCatalog)
+			.values({ source: CATALOG_SOURCE, models, fetchedAt })
+			.onConflictDoUpdate({
+				target: modelCatalog.source,
+				set: { models, fetchedAt },
+			});
+		return models;
+	} catch (error) {
+		if (!cached) throw error;
+		modelsLogger.warn(
+			{
+				fetchedAt: cached.fetchedAt,
+				error: error instanceof Error ? error.message : error,
+			},
+			"Could not refresh model catalog, serving stale copy",
+		);
+		return cached.models;
+	}
+}
+
+/**
+ * All known models by id. Throws if no catalog is available at all.
+ */
+export async function getModelCatalog(): Promise<Map<string, Model>> {
+	const cached = globalForModels.modelCache;
+	if (cached && Date.now() - cached.loadedAt < MODEL_CATALOG_TTL_MS) {
+		return cached.models;
+	}
+
+	// Share one load between concurrent callers
+	globalForModels.modelCatalogLoad ??= loadCatalog()
+		.then((models) => {
+			const byId = new Map(models.map((model) => [model.id, model]));
+			globalForModels.modelCache = { models: byId, loadedAt: Date.now() };
+			return byId;
+		})
+		.finally(() => {
+			globalForModels.modelCatalogLoad = undefined;
+		});
+
+	return globalForModels.modelCatalogLoad;
+}
+
+/**
+ * Look up a model by id; undefined if the catalog doesn't list it
+ */
+export async function getModel(modelId: string): Promise<Model | undefined> {
+	const models = await getModelCatalog();
+	return models.get(modelId);
+}
+
+/**
+ * Reject model ids the catalog doesn't know. With no catalog at all (offline,
+ * no snapshot) the id is let through rather than blocking the save.
+ */
+export async function assertKnownModel(modelId: string): Promise<void> {
+	let known: boolean;
+	try {
+		known = (await getModel(modelId)) !== undefined;
+	} catch (error) {
+		modelsLogger.warn(
+			{ modelId, error: error instanceof Error ? error.message : error },
+			"Model catalog unavailable, skipping model validation",
+		);
+		return;
+	}
+
+	if (!known) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Unknown model "${modelId}". Pick one from the model catalog.`,
+		});
+	}
+}
+
+/**
+ * Catalog entries in the shape the model picker displays
+ */
+export async function listModels(): Promise<ModelSummary[]> {
+	const models = await getModelCatalog();
+	return [...models.values()].map(toModelSummary);
+}
+
+/**
+ * Whether the catalog lists a capability for the model; false if it can't tell
+ */
+async function modelHasCapability(
+	modelId: string,
+	capability: ModelCapability,
+): Promise<boolean> {
+	try {
+		const model = await getModel(modelId);
+		return model
+			? toModelSummary(model).capabilities.includes(capability)
+			: false;
+	} catch (error) {
+		modelsLogger.warn(
+			{
+				modelId,
+				capability,
+				error: error instanceof Error ? error.message : error,
+			},
+			"Model catalog unavailable, assuming the model lacks the capability",
+		);
+		return false;
+	}
+}
+
+/**
+ * Whether the model accepts images
+ */
+export async function modelSupportsVision(modelId: string): Promise<boolean> {
+	return modelHasCapability(modelId, "vision");
+}
+
+/**
+ * Whether the model can call functions
+ */
+export async function modelSupportsTools(modelId: string): Promise<boolean> {
+	return modelHasCapability(modelId, "tools");
+}
+
+/**
+ * Get the context window (in tokens) for a model, falling back to a safe default
+ */
+export async function getModelContextLength(modelId: string): Promise<number> {
+	try {
+		const model = await getModel(modelId);
+		return model?.context_length ?? DEFAULT_CONTEXT_LENGTH;
+	} catch (error) {
+		modelsLogger.warn(
+			{ modelId, error: error instanceof Error ? error.message : error },
+			"Could not load model catalog, using default context length",
+		);
+		return DEFAULT_CONTEXT_LENGTH;
+	}
+}
+
+/**
+ * Get a model's per-token pricing, or null if the model is unknown
+ */
+export async function getModelPricing(
+	modelId: string,
+): Promise<ModelPricing | null> {
+	try {
+		const model = await getModel(modelId);
+		return model?.pricing ?? null;
+	} catch (error) {
+		modelsLogger.warn(
+			{ modelId, error: error instanceof Error ? error.message : error },
+			"Could not load model catalog, cost will be recorded as 0",
+		);
+		return null;
+	}
+}
+
+/**
+ * Estimate the USD cost of a completion from per-token pricing.
+ * Negative prices (e.g. routers) are treated as free.
+ */
+export function estimateCost(
+	pricing: ModelPricing | null,
+	promptTokens: number,
+	completionTokens: number,
+): number {
+	if (!pricing) return 0;
+	const price = (value: string | undefined) =>
+		Math.max(0, Number.parseFloat(value ?? "0") || 0);
+	return (
+		promptTokens * price(pricing.prompt) +
+		completionTokens * price(pricing.completion) +
+		price(pricing.request)
+	);
+}
+
+// Transform an OpenRouter model to our ModelSummary format
+function toModelSummary(model: Model): ModelSummary {
+	const provider = model.owned_by || model.id.split("/")[0] || "unknown";
+
+	// Parse costs, treating negative values as free (some models like Auto Router have negative pricing)
+	const rawInputCost = Number.parseFloat(model.pricing.prompt || "0");
+	const rawOutputCost = Number.parseFloat(model.pricing.completion || "0");
+
+	// Convert to cost per million tokens, treating negative as 0 (free)
+	const inputCost = rawInputCost < 0 ? 0 : rawInputCost * 1_000_000;
+	const outputCost = rawOutputCost < 0 ? 0 : rawOutputCost * 1_000_000;
+
+	const capabilities: ModelCapability[] = [];
+
+	// Check capabilities in canonical order: reasoning, tools, audio, vision
+	if (
+		model.description?.toLowerCase().includes("reasoning") ||
+		model.description?.toLowerCase().includes("o1")
+	) {
+		capabilities.push("reasoning");
+	}
+	if (
+		model.description?.toLowerCase().includes("tool") ||
+		model.description?.toLowerCase().includes("function")
+	) {
+		capabilities.push("tools");
+	}
+	if (model.architecture.modality.includes("audio")) {
+		capabilities.push("audio");
+	}
+	if (
+		model.architecture.modality.includes("image") ||
+		model.architecture.modality.includes("vision")
+	) {
+		capabilities.push("vision");
+	}
+
+	return {
+		id: model.id,
+		name: model.name,
+		provider,
+		contextLength: model.context_length,
+		inputCost,
+		outputCost,
+		capabilities,
+		isModerated: model.top_provider.is_moderated,
+	};
+}
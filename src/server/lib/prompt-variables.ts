@@ -0,0 +1,281 @@
+import { eq, inArray, or } from "drizzle-orm";
+import type { AuthContext } from "~/domain/auth-service";
+import { canEdit, isSuperuser } from "~/lib/permissions";
+import { isBeingId } from "~/lib/types";
+import type { DrizzleDB } from "~/server/db";
+import type { ContentNode } from "~/server/db/content-types";
+import { beings } from "~/server/db/schema";
+import { type Being, type BeingId, selectBeingSchema } from "~/server/db/types";
+import { contentToText } from "~/server/lib/bot-context";
+import { listRoomParticipantIds } from "~/server/lib/livekit";
+import { logger } from "~/server/lib/logger";
+
+const promptLogger = logger.child({ name: "PromptVariables" });
+
+// Keep one pasted document from eating the whole context window
+const MAX_DOCUMENT_CHARS = 20_000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * What a botPrompt is rendered against when the bot activates
+ */
+export interface PromptVariableContext {
+	db: DrizzleDB;
+	bot: Being;
+	spaceId: BeingId;
+	speakerId: BeingId | null; // Owner of the triggering intention
+	now?: Date;
+}
+
+type Resolver = (context: PromptVariableContext) => Promise<string> | string;
+
+/**
+ * Whose access a prompt's documents are checked against: the being saving
+ * the prompt, or at activation the bot's owner, plus the bot's space
+ */
+interface DocumentReader {
+	beingId: string | null;
+	isSuperuser: boolean;
+	spaceId: BeingId | null;
+}
+
+/**
+ * A prompt may pull in documents its reader can edit, or ones in the bot's space
+ */
+function canReadDocument(
+	document: { ownerId: string | null; locationId: string | null },
+	reader: DocumentReader,
+): boolean {
+	return (
+		canEdit(reader.beingId, document.ownerId, reader.isSuperuser) ||
+		(reader.spaceId !== null && document.locationId === reader.spaceId)
+	);
+}
+
+/**
+ * The bot's owner as a document reader, as they are now
+ */
+async function botOwnerReader({
+	db,
+	bot,
+	spaceId,
+}: PromptVariableContext): Promise<DocumentReader> {
+	const owner = bot.ownerId
+		? await db.query.beings.findFirst({ where: eq(beings.id, bot.ownerId) })
+		: undefined;
+	return {
+		beingId: bot.ownerId,
+		isSuperuser: isSuperuser(owner && selectBeingSchema.parse(owner)),
+		spaceId,
+	};
+}
+
+async function beingName(db: DrizzleDB, id: BeingId | null): Promise<string> {
+	if (!id) return "";
+	const being = await db.query.beings.findFirst({
+		where: eq(beings.id, id),
+		columns: { name: true },
+	});
+	return being?.name ?? id;
+}
+
+/**
+ * Beings located in the space plus anyone connected to its LiveKit room
+ */
+async function presentBeings({
+	db,
+	spaceId,
+}: PromptVariableContext): Promise<string> {
+	let liveIds: string[] = [];
+	try {
+		liveIds = await listRoomParticipantIds(spaceId);
+	} catch (error) {
+		promptLogger.warn(
+			{ spaceId, error: error instanceof Error ? error.message : error },
+			"Could not list room participants, using located beings only",
+		);
+	}
+
+	const liveBeingIds = liveIds.filter(isBeingId);
+	const present = await db
+		.select({ id: beings.id, name: beings.name })
+		.from(beings)
+		.where(
+			liveBeingIds.length > 0
+				? or(eq(beings.locationId, spaceId), inArray(beings.id, liveBeingIds))
+				: eq(beings.locationId, spaceId),
+		)
+		.orderBy(beings.name);
+
+	return present.map((being) => `${being.name} (${being.id})`).join(", ");
+}
+
+/**
+ * Plain-text variables: `{{name}}`
+ */
+const variables = new Map<string, Resolver>([
+	["space.id", ({ spaceId }) => spaceId],
+	["space.name", ({ db, spaceId }) => beingName(db, spaceId)],
+	["bot.id", ({ bot }) => bot.id],
+	["bot.name", ({ bot }) => bot.name],
+	["speaker.id", ({ speakerId }) => speakerId ?? ""],
+	["speaker.name", ({ db, speakerId }) => beingName(db, speakerId)],
+	["now", ({ now }) => (now ?? new Date()).toISOString()],
+	["beings.present", presentBeings],
+]);
+
+/**
+ * Parameterised context providers: `{{provider:argument}}`. `check` runs at
+ * save time and returns an error message, or null if the argument is usable.
+ */
+const providers = new Map<
+	string,
+	{
+		check: (
+			db: DrizzleDB,
+			argument: string,
+			reader: DocumentReader,
+		) => Promise<string | null>;
+		resolve: (
+			context: PromptVariableContext,
+			argument: string,
+		) => Promise<string>;
+	}
+>([
+	[
+		"document",
+		{
+			async check(db, argument, reader) {
+				if (!isBeingId(argument)) return `"${argument}" is not a being ID`;
+				const document = await db.query.beings.findFirst({
+					where: eq(beings.id, argument),
+					columns: { type: true, ownerId: true, locationId: true },
+				});
+				if (!document) return `document ${argument} not found`;
+				if (document.type !== "document") {
+					return `${argument} is a ${document.type}, not a document`;
+				}
+				if (!canReadDocument(document, reader)) {
+					return `document ${argument} is neither yours nor in the bot's space`;
+				}
+				return null;
+			},
+			// Checked again: the document may have moved or changed owner since the prompt was saved
+			async resolve(context, argument) {
+				if (!isBeingId(argument)) return "";
+				const document = await context.db.query.beings.findFirst({
+					where: eq(beings.id, argument),
+					columns: { content: true, ownerId: true, locationId: true },
+				});
+				if (!document) return `[document ${argument} not found]`;
+				if (!canReadDocument(document, await botOwnerReader(context))) {
+					promptLogger.warn(
+						{ botId: context.bot.id, documentId: argument },
+						"Prompt document is no longer readable by the bot",
+					);
+					return `[document ${argument} not available]`;
+				}
+				const text = contentToText((document.content ?? []) as ContentNode[]);
+				return text.length > MAX_DOCUMENT_CHARS
+					? `${text.slice(0, MAX_DOCUMENT_CHARS)}\n[…truncated]`
+					: text;
+			},
+		},
+	],
+]);
+
+/**
+ * Every placeholder a prompt can use, for help text
+ */
+export const PROMPT_PLACEHOLDERS = [
+	...[...variables.keys()].map((name) => `{{${name}}}`),
+	...[...providers.keys()].map((name) => `{{${name}:@id}}`),
+];
+
+function placeholdersIn(prompt: string): string[] {
+	return [
+		...new Set(
+			[...prompt.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1] ?? ""),
+		),
+	];
+}
+
+function splitProvider(
+	placeholder: string,
+): { provider: string; argument: string } | null {
+	const colon = placeholder.indexOf(":");
+	if (colon === -1) return null;
+	return {
+		provider: placeholder.slice(0, colon).trim(),
+		argument: placeholder.slice(colon + 1).trim(),
+	};
+}
+
+/**
+ * Problems with a prompt's placeholders (unknown names, missing or unreadable
+ * documents) for the caller saving it, for a bot in `spaceId`; empty if it's fine
+ */
+export async function findPromptVariableErrors(
+	db: DrizzleDB,
+	prompt: string,
+	auth: AuthContext,
+	spaceId: BeingId | null,
+): Promise<string[]> {
+	const errors: string[] = [];
+	const reader: DocumentReader = {
+		beingId: auth.sessionBeingId,
+		isSuperuser: auth.isCurrentUserSuperuser,
+		spaceId,
+	};
+
+	for (const placeholder of placeholdersIn(prompt)) {
+		if (variables.has(placeholder)) continue;
+
+		const call = splitProvider(placeholder);
+		const provider = call && providers.get(call.provider);
+		if (!call || !provider) {
+			errors.push(`Unknown placeholder {{${placeholder}}}`);
+			continue;
+		}
+
+		const problem = await provider.check(db, call.argument, reader);
+		if (problem) errors.push(`{{${placeholder}}}: ${problem}`);
+	}
+
+	return errors;
+}
+
+/**
+ * Substitute every placeholder in a botPrompt. Unknown placeholders (saved
+ * before validation existed) are left as they are.
+ */
+export async function renderBotPrompt(
+	prompt: string,
+	context: PromptVariableContext,
+): Promise<string> {
+	const values = new Map<string, string>();
+
+	for (const placeholder of placeholdersIn(prompt)) {
+		const variable = variables.get(placeholder);
+		const call = splitProvider(placeholder);
+		const provider = call && providers.get(call.provider);
+		try {
+			if (variable) {
+				values.set(placeholder, await variable(context));
+			} else if (call && provider) {
+				values.set(placeholder, await provider.resolve(context, call.argument));
+			}
+		} catch (error) {
+			promptLogger.warn(
+				{ botId: context.bot.id, placeholder, error },
+				"Could not resolve prompt placeholder",
+			);
+			values.set(placeholder, "");
+		}
+	}
+
+	return prompt.replace(PLACEHOLDER_PATTERN, (match, placeholder: string) =>
+		values.has(placeholder) ? (values.get(placeholder) ?? "") : match,
+	);
+}
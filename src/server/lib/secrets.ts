@@ -0,0 +1,119 @@
+import "server-only";
+import {
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	randomBytes,
+} from "node:crypto";
+import { env } from "~/env";
+
+/**
+ * Envelope encryption for secrets stored in the database (e.g. per-being LLM API keys).
+ *
+ * Each secret gets its own random data key; the data key is encrypted with the
+ * server key (LLM_KEY_ENCRYPTION_KEY) and stored next to the ciphertext. Both
+ * layers use AES-256-GCM. Stored format: `enc:v1:<base64url JSON envelope>`.
+ */
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+
+interface Envelope {
+	key: string; // Data key, encrypted with the server key
+	keyIv: string;
+	keyTag: string;
+	data: string; // Secret, encrypted with the data key
+	dataIv: string;
+	dataTag: string;
+}
+
+function getServerKey(): Buffer {
+	const raw = env.LLM_KEY_ENCRYPTION_KEY;
+	if (!raw) {
+		throw new Error(
+			"LLM_KEY_ENCRYPTION_KEY is not configured - cannot encrypt or decrypt stored API keys.",
+		);
+	}
+	// Accept any string; hash to exactly 32 bytes
+	return createHash("sha256").update(raw).digest();
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv(ALGORITHM, key, iv);
+	const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+	return { ciphertext, iv, tag: cipher.getAuthTag() };
+}
+
+function open(key: Buffer, ciphertext: string, iv: string, tag: string) {
+	const decipher = createDecipheriv(
+		ALGORITHM,
+		key,
+		Buffer.from(iv, "base64url"),
+	);
+	decipher.setAuthTag(Buffer.from(tag, "base64url"));
+	return Buffer.concat([
+		decipher.update(Buffer.from(ciphertext, "base64url")),
+		decipher.final(),
+	]);
+}
+
+export function isEncryptedSecret(stored: string): boolean {
+	return stored.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export function encryptSecret(plaintext: string): string {
+	const dataKey = randomBytes(32);
+	const data = seal(dataKey, Buffer.from(plaintext, "utf8"));
+	const key = seal(getServerKey(), dataKey);
+
+	const envelope: Envelope = {
+		key: key.ciphertext.toString("base64url"),
+		keyIv: key.iv.toString("base64url"),
+		keyTag: key.tag.toString("base64url"),
+		data: data.ciphertext.toString("base64url"),
+		dataIv: data.iv.toString("base64url"),
+		dataTag: data.tag.toString("base64url"),
+	};
+
+	return `${PREFIX}${Buffer.from(JSON.stringify(envelope)).toString("base64url")}`;
+}
+
+/**
+ * Decrypt a stored secret. Plaintext left from before encryption is refused;
+ * `npm run db:encrypt-keys` encrypts it.
+ */
+export function decryptSecret(stored: string): string {
+	if (!isEncryptedSecret(stored)) {
+		throw new Error(
+			"Stored secret is not encrypted - run `npm run db:encrypt-keys` to encrypt it.",
+		);
+	}
+
+	const envelope = JSON.parse(
+		Buffer.from(stored.slice(PREFIX.length), "base64url").toString("utf8"),
+	) as Envelope;
+
+	const dataKey = open(
+		getServerKey(),
+		envelope.key,
+		envelope.keyIv,
+		envelope.keyTag,
+	);
+	return open(
+		dataKey,
+		envelope.data,
+		envelope.dataIv,
+		envelope.dataTag,
+	).toString("utf8");
+}
+
+/**
+ * Last 4 characters of a secret, safe to show to clients
+ */
+export function secretHint(plaintext: string): string {
+	return plaintext.slice(-4);
+}
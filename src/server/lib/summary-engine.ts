@@ -0,0 +1,410 @@
+import { createHash } from "node:crypto";
+import { and, asc, eq, gte, inArray, isNull, lt, or } from "drizzle-orm";
+import { services } from "~/domain/services";
+import { type CalendarBand, calendarBands } from "~/lib/types/summary";
+import { db } from "~/server/db";
+import type { ContentNode } from "~/server/db/content-types";
+import { beings, intentions } from "~/server/db/schema";
+import type { BeingId, IntentionId } from "~/server/db/types";
+import { contentToText, estimateTokens } from "~/server/lib/bot-context";
+import { getSystemLlmProvider } from "~/server/lib/llm";
+import { logger } from "~/server/lib/logger";
+import { DEFAULT_BOT_MODEL } from "~/server/lib/models";
+
+const summaryLogger = logger.child({ name: "SummaryEngine" });
+
+const MINUTE_MS = 1000 * 60;
+const HOUR_MS = MINUTE_MS * 60;
+const DAY_MS = HOUR_MS * 24;
+
+/**
+ * Bucket age limit, window length, and summary length (K tokens) per band.
+ * Windows are fixed slots of time, so a window keeps the same messages as new
+ * ones arrive. Windows widen and summaries shrink as messages age; lastHour
+ * stays verbatim.
+ */
+const BAND_CONFIG: Record<
+	CalendarBand,
+	{ maxAgeMs: number; windowMs: number; maxTokens: number }
+> = {
+	lastHour: { maxAgeMs: HOUR_MS, windowMs: MINUTE_MS * 5, maxTokens: 0 },
+	lastDay: { maxAgeMs: DAY_MS, windowMs: HOUR_MS, maxTokens: 200 },
+	lastWeek: { maxAgeMs: DAY_MS * 7, windowMs: HOUR_MS * 6, maxTokens: 160 },
+	lastMonth: { maxAgeMs: DAY_MS * 30, windowMs: DAY_MS, maxTokens: 120 },
+	lastYear: { maxAgeMs: DAY_MS * 365, windowMs: DAY_MS * 7, maxTokens: 100 },
+	allTime: {
+		maxAgeMs: Number.POSITIVE_INFINITY,
+		windowMs: DAY_MS * 30,
+		maxTokens: 80,
+	},
+};
+
+// Wait for writes to settle before refreshing a space
+const REFRESH_DEBOUNCE_MS = 30_000;
+
+// Cap LLM calls per refresh; anything left over is picked up next time
+const MAX_SUMMARIES_PER_REFRESH = 20;
+
+const SUMMARY_MODEL = DEFAULT_BOT_MODEL;
+
+interface SpaceMessage {
+	id: IntentionId;
+	createdAt: Date;
+	line: string; // "Speaker: text"
+}
+
+// Milliseconds since the epoch, end exclusive
+interface TimeRange {
+	start: number;
+	end: number;
+}
+
+export function bandForAge(ageMs: number): CalendarBand {
+	return (
+		calendarBands.find((band) => ageMs < BAND_CONFIG[band].maxAgeMs) ??
+		"allTime"
+	);
+}
+
+/**
+ * The band and window a message sent at `time` belongs in at `now`
+ */
+function windowFor(
+	time: number,
+	now: number,
+): { band: CalendarBand; windowIndex: number } {
+	const band = bandForAge(now - time);
+	return { band, windowIndex: Math.floor(time / BAND_CONFIG[band].windowMs) };
+}
+
+/**
+ * Widen a range to whole windows at both ends. The widened edge can fall in
+ * another band, with windows of another length, so repeat until it settles.
+ */
+function toWholeWindows(range: TimeRange, now: number): TimeRange {
+	let { start, end } = range;
+	while (true) {
+		const first = windowFor(start, now);
+		const last = windowFor(end - 1, now);
+		const wider = {
+			start: Math.min(
+				start,
+				first.windowIndex * BAND_CONFIG[first.band].windowMs,
+			),
+			end: Math.max(
+				end,
+				(last.windowIndex + 1) * BAND_CONFIG[last.band].windowMs,
+			),
+		};
+		if (wider.start === start && wider.end === end) return wider;
+		({ start, end } = wider);
+	}
+}
+
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+	const merged: TimeRange[] = [];
+	for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+		const previous = merged[merged.length - 1];
+		if (previous && range.start <= previous.end) {
+			previous.end = Math.max(previous.end, range.end);
+		} else {
+			merged.push({ ...range });
+		}
+	}
+	return merged;
+}
+
+/**
+ * Complete, undeleted utterances in a space sent within any of the ranges
+ */
+async function loadSpaceMessages(
+	spaceId: BeingId,
+	ranges: TimeRange[],
+): Promise<SpaceMessage[]> {
+	const rows = await db
+		.select({
+			id: intentions.id,
+			ownerId: intentions.ownerId,
+			createdAt: intentions.createdAt,
+			content: intentions.content,
+		})
+		.from(intentions)
+		.where(
+			and(
+				eq(intentions.locationId, spaceId),
+				eq(intentions.type, "utterance"),
+				eq(intentions.state, "complete"),
+				isNull(intentions.deletedAt),
+				or(
+					...ranges.map((range) =>
+						and(
+							gte(intentions.createdAt, new Date(range.start)),
+							lt(intentions.createdAt, new Date(range.end)),
+						),
+					),
+				),
+			),
+		)
+		.orderBy(asc(intentions.createdAt), asc(intentions.id));
+
+	const ownerIds = [...new Set(rows.map((row) => row.ownerId))];
+	const speakers =
+		ownerIds.length > 0
+			? await db
+					.select({ id: beings.id, name: beings.name })
+					.from(beings)
+					.where(inArray(beings.id, ownerIds))
+			: [];
+	const names = new Map(speakers.map((speaker) => [speaker.id, speaker.name]));
+
+	return rows.map((row) => ({
+		id: row.id,
+		createdAt: row.createdAt,
+		line: `${names.get(row.ownerId) ?? row.ownerId}: ${contentToText(row.content as ContentNode[])}`,
+	}));
+}
+
+/**
+ * Split messages into calendar buckets, then into each bucket's time windows
+ */
+function partition(
+	messages: SpaceMessage[],
+	now: number,
+): { band: CalendarBand; windowIndex: number; messages: SpaceMessage[] }[] {
+	const windows = new Map<
+		string,
+		{ band: CalendarBand; windowIndex: number; messages: SpaceMessage[] }
+	>();
+
+	for (const message of messages) {
+		const { band, windowIndex } = windowFor(message.createdAt.getTime(), now);
+		const key = `${band}:${windowIndex}`;
+		const window = windows.get(key) ?? { band, windowIndex, messages: [] };
+		window.messages.push(message);
+		windows.set(key, window);
+	}
+
+	return [...windows.values()];
+}
+
+function hashWindow(messages: SpaceMessage[]): string {
+	const hash = createHash("sha256");
+	for (const message of messages) {
+		hash.update(`${message.id}\n${message.line}\n`);
+	}
+	return hash.digest("hex");
+}
+
+async function summarize(lines: string[], maxTokens: number): Promise<string> {
+	const provider = getSystemLlmProvider();
+	let text = "";
+
+	for await (const event of provider.streamChat({
+		model: SUMMARY_MODEL,
+		messages: [
+			{
+				role: "system",
+				content:
+					"You summarise chat history for an assistant's memory. Keep names, decisions, facts and open questions. Reply with the summary only.",
+			},
+			{
+				role: "user",
+				content: `Summarise the following ${lines.length} messages in ≤${maxTokens} tokens.\n\n${lines.join("\n")}`,
+			},
+		],
+	})) {
+		if (event.type === "content") text += event.text;
+	}
+
+	return text.trim();
+}
+
+/**
+ * Whether any bot is in the space - nothing reads its summaries otherwise
+ */
+async function hasBots(spaceId: BeingId): Promise<boolean> {
+	const bot = await db.query.beings.findFirst({
+		columns: { id: true },
+		where: and(eq(beings.locationId, spaceId), eq(beings.type, "bot")),
+	});
+	return bot !== undefined;
+}
+
+/**
+ * Bring a space's summary chunks up to date. Only the windows that can have
+ * changed are loaded: those after the newest chunk, those holding chunks that
+ * aged into an older band, and those around `edited` (send times of messages
+ * written since the last refresh). Of these, windows whose messages changed
+ * are re-summarised (hash gate) and chunks for windows left empty are dropped. Spaces without bots keep no summaries; they're
+ * rebuilt when a bot is there for the next write.
+ */
+export async function refreshSummaries(
+	spaceId: BeingId,
+	edited: number[] = [],
+): Promise<void> {
+	const now = Date.now();
+	const chunks = await services.summary.getAllChunks(spaceId);
+
+	if (!(await hasBots(spaceId))) {
+		await services.summary.deleteChunks(chunks.map((chunk) => chunk.id));
+		return;
+	}
+
+	const newest = Math.max(
+		0,
+		...chunks.map((chunk) => chunk.rangeEnd.getTime()),
+	);
+	const ranges = mergeRanges(
+		[
+			{ start: newest, end: now + 1 },
+			...chunks
+				.filter(
+					(chunk) =>
+						bandForAge(now - chunk.rangeStart.getTime()) !== chunk.band,
+				)
+				.map((chunk) => ({
+					start: chunk.rangeStart.getTime(),
+					end: chunk.rangeEnd.getTime() + 1,
+				})),
+			...edited.map((time) => ({ start: time, end: time + 1 })),
+		].map((range) => toWholeWindows(range, now)),
+	);
+
+	const windows = partition(await loadSpaceMessages(spaceId, ranges), now);
+	const existing = new Map(
+		chunks
+			.filter((chunk) =>
+				ranges.some(
+					(range) =>
+						chunk.rangeStart.getTime() < range.end &&
+						chunk.rangeEnd.getTime() >= range.start,
+				),
+			)
+			.map((chunk) => [`${chunk.band}:${chunk.windowIndex}`, chunk]),
+	);
+
+	const updatedByBand = new Map<CalendarBand, number>();
+	let summarised = 0;
+	const deferred: number[] = [];
+
+	for (const window of windows) {
+		const key = `${window.band}:${window.windowIndex}`;
+		const stored = existing.get(key);
+		existing.delete(key);
+
+		const hash = hashWindow(window.messages);
+		if (stored?.hash === hash) continue;
+
+		const { maxTokens } = BAND_CONFIG[window.band];
+		const lines = window.messages.map((message) => message.line);
+		let text: string;
+		if (maxTokens === 0) {
+			text = lines.join("\n"); // Verbatim
+		} else if (summarised >= MAX_SUMMARIES_PER_REFRESH) {
+			deferred.push(window.messages[0]?.createdAt.getTime() ?? now);
+			continue;
+		} else {
+			text = await summarize(lines, maxTokens);
+			summarised++;
+		}
+
+		const first = window.messages[0];
+		const last = window.messages[window.messages.length - 1];
+		if (!first || !last) continue;
+
+		await services.summary.upsertChunk({
+			spaceId,
+			band: window.band,
+			windowIndex: window.windowIndex,
+			firstIntentionId: first.id,
+			lastIntentionId: last.id,
+			rangeStart: first.createdAt,
+			rangeEnd: last.createdAt,
+			messageCount: window.messages.length,
+			hash,
+			text,
+			tokenCount: estimateTokens(text),
+		});
+		updatedByBand.set(window.band, (updatedByBand.get(window.band) ?? 0) + 1);
+	}
+
+	// Whatever is left belongs to windows that aged into another band (or messages that are gone)
+	await services.summary.deleteChunks(
+		[...existing.values()].map((chunk) => chunk.id),
+	);
+
+	for (const [band, updated] of updatedByBand) {
+		summaryLogger.info({ spaceId, band, updated }, "summary_band_refresh");
+	}
+	if (deferred.length > 0) {
+		summaryLogger.info(
+			{ spaceId, deferred: deferred.length },
+			"Deferred summaries to the next refresh",
+		);
+		markEdited(spaceId, deferred);
+		scheduleSummaryRefresh(spaceId);
+	}
+}
+
+const globalForSummaries = globalThis as unknown as {
+	summaryRefreshTimers: Map<BeingId, NodeJS.Timeout> | undefined;
+	summaryRefreshesRunning: Set<BeingId> | undefined;
+	summaryEditedTimes: Map<BeingId, Set<number>> | undefined;
+};
+globalForSummaries.summaryRefreshTimers ??= new Map();
+globalForSummaries.summaryRefreshesRunning ??= new Set();
+globalForSummaries.summaryEditedTimes ??= new Map();
+const refreshTimers = globalForSummaries.summaryRefreshTimers;
+const runningRefreshes = globalForSummaries.summaryRefreshesRunning;
+const editedTimes = globalForSummaries.summaryEditedTimes;
+
+/**
+ * Send times of the messages written in a space since its last refresh
+ */
+function takeEditedTimes(spaceId: BeingId): number[] {
+	const times = editedTimes.get(spaceId) ?? new Set();
+	editedTimes.delete(spaceId);
+	return [...times];
+}
+
+/**
+ * Have the next refresh of a space reload the windows around these times
+ */
+function markEdited(spaceId: BeingId, times: number[]): void {
+	const marked = editedTimes.get(spaceId) ?? new Set();
+	for (const time of times) marked.add(time);
+	editedTimes.set(spaceId, marked);
+}
+
+/**
+ * Queue a summary refresh for a space once writes settle. Called after every
+ * intention write, with the time the written message was sent.
+ */
+export function scheduleSummaryRefresh(spaceId: BeingId, sentAt?: Date): void {
+	if (sentAt) markEdited(spaceId, [sentAt.getTime()]);
+	if (refreshTimers.has(spaceId)) return;
+
+	refreshTimers.set(
+		spaceId,
+		setTimeout(() => {
+			refreshTimers.delete(spaceId);
+
+			// One refresh per space at a time; try again once this one is done
+			if (runningRefreshes.has(spaceId)) {
+				scheduleSummaryRefresh(spaceId);
+				return;
+			}
+
+			runningRefreshes.add(spaceId);
+			const edited = takeEditedTimes(spaceId);
+			refreshSummaries(spaceId, edited)
+				.catch((error) => {
+					summaryLogger.error({ error, spaceId }, "Summary refresh failed");
+					// Keep the edits for the retry, or their windows would never be reloaded
+					markEdited(spaceId, edited);
+					scheduleSummaryRefresh(spaceId);
+				})
+				.finally(() => runningRefreshes.delete(spaceId));
+		}, REFRESH_DEBOUNCE_MS),
+	);
+}
@@ -0,0 +1,72 @@
+import { services } from "~/domain/services";
+import type { ContentNode } from "~/server/db/content-types";
+import type { Being, BeingId, Intention } from "~/server/db/types";
+import { contentToText } from "~/server/lib/bot-context";
+import { logger } from "~/server/lib/logger";
+
+const memoryLogger = logger.child({ name: "VectorMemory" });
+
+/**
+ * Keep an utterance's embedding current. Only finished utterances are
+ * remembered; runs in the background so writes never wait on the embedder.
+ */
+export function indexIntentionInBackground(intention: Intention): void {
+	// Deleted utterances are forgotten, not just emptied
+	if (intention.deletedAt) {
+		services.memory
+			.removeSource("intention", intention.id)
+			.catch((error) =>
+				memoryLogger.error(
+					{ error, intentionId: intention.id },
+					"Failed to forget deleted intention",
+				),
+			);
+		return;
+	}
+	if (intention.type !== "utterance" || intention.state !== "complete") return;
+
+	const text = contentToText(intention.content as ContentNode[]).trim();
+	if (!text) return;
+
+	services.memory
+		.indexSource({
+			sourceType: "intention",
+			sourceId: intention.id,
+			spaceId: (intention.locationId as BeingId | null) ?? null,
+			ownerId: intention.ownerId as BeingId,
+			sourceCreatedAt: intention.createdAt,
+			text,
+		})
+		.catch((error) =>
+			memoryLogger.error(
+				{ error, intentionId: intention.id },
+				"Failed to index intention",
+			),
+		);
+}
+
+/**
+ * Keep a document being's embedding current (name plus content)
+ */
+export function indexBeingInBackground(being: Being): void {
+	if (being.type !== "document") return;
+
+	const body = being.content ? contentToText(being.content) : "";
+	const text = `${being.name}\n\n${body}`.trim();
+
+	services.memory
+		.indexSource({
+			sourceType: "being",
+			sourceId: being.id,
+			spaceId: (being.locationId as BeingId | null) ?? null,
+			ownerId: (being.ownerId as BeingId | null) ?? null,
+			sourceCreatedAt: being.createdAt,
+			text,
+		})
+		.catch((error) =>
+			memoryLogger.error(
+				{ error, beingId: being.id },
+				"Failed to index document",
+			),
+		);
+}